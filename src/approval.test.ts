@@ -0,0 +1,78 @@
+import {test, expect, vi} from 'vitest';
+import {createSandbox, type Tool} from './index';
+
+const deployTool = (): Tool => ({
+	name: 'deploy',
+	description: 'Deploy',
+	inputSchema: {type: 'object'},
+	handler: vi.fn(async () => 'deployed'),
+});
+
+test('executions waiting too long for approval time out', async () => {
+	const tool = deployTool();
+	const sandbox = await createSandbox({tools: [tool], requireApproval: () => true, approvalTimeoutMs: 100});
+
+	const pending = await sandbox.execute.handler({code: 'return tool("deploy", {});'});
+	await new Promise((resolve) => {
+		setTimeout(resolve, 400);
+	});
+
+	await expect(sandbox.resolveApproval(pending.approval!.id, 'approved')).rejects.toThrow('No pending approval');
+	expect(tool.handler).not.toHaveBeenCalled();
+});
+
+test('cancelApproval ends the paused execution', async () => {
+	const tool = deployTool();
+	const sandbox = await createSandbox({tools: [tool], requireApproval: () => true});
+
+	const pending = await sandbox.execute.handler({code: 'return tool("deploy", {});'});
+	const result = await sandbox.cancelApproval(pending.approval!.id);
+
+	expect(result).toMatchObject({success: false, cancelled: true, errorDetails: {kind: 'cancelled'}});
+	expect(result.error).toContain(pending.approval!.id);
+	expect(tool.handler).not.toHaveBeenCalled();
+	await expect(sandbox.cancelApproval(pending.approval!.id)).rejects.toThrow('No pending approval');
+});
+
+test('built-in tools never need approval', async () => {
+	const requireApproval = vi.fn(() => true);
+	const sandbox = await createSandbox({tools: [deployTool()], requireApproval});
+
+	const result = await sandbox.execute.handler({code: 'return (await tool("describe_tool", {name: "deploy"})).name;'});
+
+	expect(result).toMatchObject({success: true, result: 'deploy'});
+	expect(requireApproval).not.toHaveBeenCalled();
+});
+
+test('tool calls finishing while waiting for approval can run code without timing out', async () => {
+	const slow: Tool = {
+		name: 'slow',
+		inputSchema: {type: 'object'},
+		async handler() {
+			await new Promise((resolve) => {
+				setTimeout(resolve, 400);
+			});
+			return 'slow';
+		},
+	};
+	const sandbox = await createSandbox({
+		tools: [deployTool(), slow], timeoutMs: 200, requireApproval: (event) => event.toolName === 'deploy',
+	});
+
+	const pending = await sandbox.execute.handler({
+		code: `
+			const slowDone = tool("slow", {}).then((r) => {
+				let n = 0;
+				for (let i = 0; i < 200000; i++) n += i;
+				return r;
+			});
+			return [await tool("deploy", {}), await slowDone];
+		`,
+	});
+	await new Promise((resolve) => {
+		setTimeout(resolve, 700);
+	});
+	const result = await sandbox.resolveApproval(pending.approval!.id, 'approved');
+
+	expect(result).toMatchObject({success: true, result: ['deployed', 'slow']});
+});
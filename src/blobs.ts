@@ -0,0 +1,58 @@
+import type {Blob} from './types.js';
+
+/** Generate a short random ID (e.g., 'blob_k7m2x9') */
+export function generateId(prefix: string): string {
+	const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
+	let suffix = '';
+	for (let i = 0; i < 6; i++) {
+		suffix += chars[Math.floor(Math.random() * chars.length)];
+	}
+
+	return `${prefix}_${suffix}`;
+}
+
+/** Extract blobs from a value, replacing them with refs */
+export function extractBlobs(
+	value: unknown,
+	blobStore: Map<string, Blob>,
+): unknown {
+	if (typeof value === 'object' && value !== null) {
+		const v = value as Record<string, unknown>;
+
+		// MCP image/audio content: {type: 'image'|'audio', data: string, mimeType: string}
+		if ((v.type === 'image' || v.type === 'audio') && typeof v.data === 'string' && typeof v.mimeType === 'string') {
+			const id = generateId('blob');
+			const blob: Blob = {id, data: v.data, mimeType: v.mimeType};
+			blobStore.set(id, blob);
+			return {type: 'blob_ref', id, mimeType: v.mimeType};
+		}
+
+		// MCP resource blob (PDFs, etc.): {blob: string, mimeType: string}
+		if (typeof v.blob === 'string' && typeof v.mimeType === 'string') {
+			const id = generateId('blob');
+			const blob: Blob = {id, data: v.blob, mimeType: v.mimeType};
+			blobStore.set(id, blob);
+			return {type: 'blob_ref', id, mimeType: v.mimeType};
+		}
+
+		// Recurse into arrays and objects
+		if (Array.isArray(value)) {
+			return value.map((item) => extractBlobs(item, blobStore));
+		}
+
+		// Leave Dates, Maps, Uint8Arrays etc. intact for marshalling
+		const proto: unknown = Object.getPrototypeOf(value);
+		if (proto !== Object.prototype && proto !== null) {
+			return value;
+		}
+
+		const result: Record<string, unknown> = {};
+		for (const [k, val] of Object.entries(v)) {
+			result[k] = extractBlobs(val, blobStore);
+		}
+
+		return result;
+	}
+
+	return value;
+}
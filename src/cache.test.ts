@@ -0,0 +1,157 @@
+import {test, expect, vi} from 'vitest';
+import {cacheKey} from './cache';
+import {
+	createSandbox, createMemoryCacheBackend, type CacheBackend, type ToolCallSuccessEvent,
+} from './index';
+
+test('cache keys ignore object key order', () => {
+	expect(cacheKey('t', {a: 1, b: {c: 2, d: [3, {e: 4, f: 5}]}})).toBe(cacheKey('t', {b: {d: [3, {f: 5, e: 4}], c: 2}, a: 1}));
+	expect(cacheKey('t', {a: 1})).not.toBe(cacheKey('u', {a: 1}));
+	expect(cacheKey('t', {a: 1})).not.toBe(cacheKey('t', {a: '1'}));
+	expect(cacheKey('t', {d: new Date(0)})).not.toBe(cacheKey('t', {d: 0}));
+});
+
+test('memory cache backend expires entries after their TTL', async () => {
+	vi.useFakeTimers({toFake: ['Date']});
+	try {
+		const backend = createMemoryCacheBackend();
+		await backend.set('k', 'v', 1000);
+
+		vi.advanceTimersByTime(999);
+		expect(await backend.get('k')).toBe('v');
+		vi.advanceTimersByTime(1);
+		expect(await backend.get('k')).toBeUndefined();
+	} finally {
+		vi.useRealTimers();
+	}
+});
+
+test('memory cache backend evicts least recently used entries', async () => {
+	const backend = createMemoryCacheBackend({maxEntries: 2});
+	await backend.set('a', '1', 60000);
+	await backend.set('b', '2', 60000);
+	await backend.get('a');
+	await backend.set('c', '3', 60000);
+
+	expect(await backend.get('a')).toBe('1');
+	expect(await backend.get('b')).toBeUndefined();
+	expect(await backend.get('c')).toBe('3');
+
+	const small = createMemoryCacheBackend({maxBytes: 9});
+	await small.set('a', '1234', 60000);
+	await small.set('b', '1234', 60000);
+	await small.set('huge', '12345678901', 60000);
+	expect(await small.get('a')).toBeUndefined();
+	expect(await small.get('b')).toBe('1234');
+	expect(await small.get('huge')).toBeUndefined();
+});
+
+test('caches results of read-only tools across executions', async () => {
+	const reader = vi.fn(async (args) => args);
+	const writer = vi.fn(async () => 'written');
+	const successes: ToolCallSuccessEvent[] = [];
+	const sandbox = await createSandbox({
+		tools: [
+			{
+				name: 'reader', inputSchema: {type: 'object'}, annotations: {readOnlyHint: true}, handler: reader,
+			},
+			{name: 'writer', inputSchema: {type: 'object'}, handler: writer},
+		],
+		cache: {},
+		trace: true,
+		onToolCallSuccess(event) {
+			successes.push(event);
+		},
+	});
+
+	await sandbox.execute.handler({code: 'await tool("reader", {a: 1, b: 2}); return tool("writer", {});'});
+	const result = await sandbox.execute.handler({code: 'await tool("reader", {b: 2, a: 1}); return tool("writer", {});'});
+
+	expect(reader).toHaveBeenCalledTimes(1);
+	expect(writer).toHaveBeenCalledTimes(2);
+	expect(successes.map((e) => [e.toolName, e.cached])).toEqual([
+		['reader', undefined], ['writer', undefined], ['reader', true], ['writer', undefined],
+	]);
+	expect(successes[2]?.result).toEqual({a: 1, b: 2});
+	expect(result.trace?.toolCalls.map((c) => c.cached)).toEqual([true, undefined]);
+});
+
+test('cache uses the given backend, TTL and cacheable predicate', async () => {
+	const writes: [string, string, number][] = [];
+	const backend: CacheBackend = {
+		async get() {
+			return undefined;
+		},
+		async set(key, value, ttlMs) {
+			writes.push([key, value, ttlMs]);
+		},
+	};
+	const sandbox = await createSandbox({
+		tools: [{name: 'search', inputSchema: {type: 'object'}, handler: async (args) => args}],
+		cache: {backend, ttlMs: 1000, cacheable: (t) => t.name === 'search'},
+	});
+
+	await sandbox.execute.handler({code: 'return tool("search", {q: "x"});'});
+
+	expect(writes).toEqual([[cacheKey('search', {q: 'x'}), '{"q":"x"}', 1000]]);
+});
+
+test('cache hits count toward maxCallsPerTool', async () => {
+	const reader = vi.fn(async () => 'read');
+	const sandbox = await createSandbox({
+		tools: [{
+			name: 'reader', inputSchema: {type: 'object'}, annotations: {readOnlyHint: true}, handler: reader,
+		}],
+		cache: {},
+		limits: {maxCallsPerTool: 1},
+	});
+
+	const result = await sandbox.execute.handler({code: 'await tool("reader", {}); return tool("reader", {});'});
+
+	expect(reader).toHaveBeenCalledTimes(1);
+	expect(result.errorDetails).toMatchObject({kind: 'limit', name: 'ToolLimitError', toolName: 'reader'});
+});
+
+test('keyPrefix keeps sandboxes sharing a backend apart', async () => {
+	const backend = createMemoryCacheBackend();
+	const search = (user: string) => ({
+		name: 'search', inputSchema: {type: 'object' as const}, annotations: {readOnlyHint: true}, handler: async () => `${user}'s results`,
+	});
+	const aliceSandbox = await createSandbox({tools: [search('alice')], cache: {backend, keyPrefix: 'alice'}});
+	const bobSandbox = await createSandbox({tools: [search('bob')], cache: {backend, keyPrefix: 'bob'}});
+
+	await aliceSandbox.execute.handler({code: 'return tool("search", {q: "x"});'});
+	const result = await bobSandbox.execute.handler({code: 'return tool("search", {q: "x"});'});
+
+	expect(result.result).toBe('bob\'s results');
+	expect(cacheKey('search', {q: 'x'}, 'alice')).toBe(`alice:${cacheKey('search', {q: 'x'})}`);
+});
+
+test('cache backend failures fall back to calling the tool', async () => {
+	const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+	try {
+		const sandbox = await createSandbox({
+			tools: [{
+				name: 'reader', inputSchema: {type: 'object'}, annotations: {readOnlyHint: true}, handler: async () => 'read',
+			}],
+			cache: {
+				backend: {
+					async get() {
+						throw new Error('Redis down');
+					},
+					async set() {
+						throw new Error('Redis down');
+					},
+				},
+			},
+		});
+
+		const result = await sandbox.execute.handler({code: 'return tool("reader", {});'});
+
+		expect(result).toMatchObject({success: true, result: 'read'});
+		expect(warn).toHaveBeenCalledWith('[tool-sandbox] Cache read failed:', expect.any(Error));
+		expect(warn).toHaveBeenCalledWith('[tool-sandbox] Cache write failed:', expect.any(Error));
+	} finally {
+		vi.restoreAllMocks();
+	}
+});
@@ -0,0 +1,75 @@
+import {createHash} from 'node:crypto';
+import {encodeValue} from './marshal.js';
+import type {CacheBackend} from './types.js';
+
+/** Sort object keys recursively, so equal values serialize identically */
+function sortKeys(value: unknown): unknown {
+	if (Array.isArray(value)) {
+		return value.map(sortKeys);
+	}
+
+	if (typeof value === 'object' && value !== null) {
+		return Object.fromEntries(Object.keys(value).sort().map((key) => [key, sortKeys((value as Record<string, unknown>)[key])]));
+	}
+
+	return value;
+}
+
+/** Cache key for a tool call: the key prefix (if any), the tool name and a hash of its args, ignoring key order */
+export function cacheKey(toolName: string, args: unknown, keyPrefix?: string): string {
+	const canonical = JSON.stringify(sortKeys(JSON.parse(encodeValue(args))));
+	const key = `${toolName}:${createHash('sha256').update(canonical).digest('hex')}`;
+	return keyPrefix === undefined ? key : `${keyPrefix}:${key}`;
+}
+
+/** Cache backend keeping results in memory, evicting the least recently used entries beyond the limits */
+export function createMemoryCacheBackend(options: {maxEntries?: number; maxBytes?: number} = {}): CacheBackend {
+	const maxEntries = options.maxEntries ?? 1000;
+	const maxBytes = options.maxBytes ?? Infinity;
+	// Map iteration order is insertion order, so re-inserting on access keeps it in LRU order
+	const entries = new Map<string, {value: string; expiresAt: number; size: number}>();
+	let bytes = 0;
+
+	const remove = (key: string) => {
+		const entry = entries.get(key);
+		if (entry) {
+			bytes -= entry.size;
+			entries.delete(key);
+		}
+	};
+
+	return {
+		async get(key) {
+			const entry = entries.get(key);
+			if (!entry) {
+				return undefined;
+			}
+
+			remove(key);
+			if (entry.expiresAt <= Date.now()) {
+				return undefined;
+			}
+
+			entries.set(key, entry);
+			bytes += entry.size;
+			return entry.value;
+		},
+		async set(key, value, ttlMs) {
+			remove(key);
+			const size = key.length + value.length;
+			if (size > maxBytes) {
+				return;
+			}
+
+			entries.set(key, {value, expiresAt: Date.now() + ttlMs, size});
+			bytes += size;
+			for (const oldest of entries.keys()) {
+				if (entries.size <= maxEntries && bytes <= maxBytes) {
+					break;
+				}
+
+				remove(oldest);
+			}
+		},
+	};
+}
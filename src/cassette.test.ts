@@ -0,0 +1,125 @@
+import {test, expect} from 'vitest';
+import {
+	createSandbox, encodeValue, decodeValue, type Cassette, type Tool,
+} from './index';
+
+const weatherTool: Tool = {
+	name: 'weather',
+	inputSchema: {type: 'object', properties: {city: {type: 'string'}}},
+	async handler(args) {
+		const {city} = args as {city: string};
+		if (city === 'Atlantis') {
+			throw new Error('Unknown city');
+		}
+
+		return {city, tempC: city.length, at: new Date(0)};
+	},
+};
+
+/** Same tool, but failing if actually called */
+const offlineWeatherTool: Tool = {
+	...weatherTool,
+	async handler() {
+		throw new Error('Live handler called during replay');
+	},
+};
+
+const code = `
+	const [paris, rome] = await Promise.all([tool('weather', {city: 'Paris'}), tool('weather', {city: 'Rome'})]);
+	let atlantis;
+	try {
+		await tool('weather', {city: 'Atlantis'});
+	} catch (e) {
+		atlantis = e.message;
+	}
+	return {paris: paris.tempC, rome: rome.tempC, year: paris.at.getUTCFullYear(), atlantis};
+`;
+
+test('records tool calls in the order they were made', async () => {
+	const sandbox = await createSandbox({tools: [weatherTool], record: true});
+
+	const result = await sandbox.execute.handler({code});
+
+	expect(result.cassette).toEqual({
+		version: 1,
+		calls: [
+			{toolName: 'weather', args: {city: 'Paris'}, result: {city: 'Paris', tempC: 5, at: new Date(0)}},
+			{toolName: 'weather', args: {city: 'Rome'}, result: {city: 'Rome', tempC: 4, at: new Date(0)}},
+			{toolName: 'weather', args: {city: 'Atlantis'}, error: 'Unknown city'},
+		],
+	});
+});
+
+test('replays a recorded cassette without calling handlers', async () => {
+	const recorder = await createSandbox({tools: [weatherTool], record: true});
+	const recorded = await recorder.execute.handler({code});
+	const cassette = decodeValue(encodeValue(recorded.cassette)) as Cassette;
+
+	const replayer = await createSandbox({tools: [offlineWeatherTool], replay: cassette});
+	const replayed = await replayer.execute.handler({code});
+
+	expect(replayed).toMatchObject({success: true, result: recorded.result});
+	expect(replayed.result).toEqual({
+		paris: 5, rome: 4, year: 1970, atlantis: 'Unknown city',
+	});
+});
+
+test('replay continues through the cassette across executions', async () => {
+	const cassette: Cassette = {
+		version: 1,
+		calls: [
+			{toolName: 'weather', args: {city: 'Paris'}, result: 'first'},
+			{toolName: 'weather', args: {city: 'Paris'}, result: 'second'},
+		],
+	};
+	const sandbox = await createSandbox({tools: [offlineWeatherTool], replay: cassette});
+
+	expect((await sandbox.execute.handler({code: 'return tool("weather", {city: "Paris"});'})).result).toBe('first');
+	expect((await sandbox.execute.handler({code: 'return tool("weather", {city: "Paris"});'})).result).toBe('second');
+});
+
+test('replay fails the execution when calls diverge, even if the error is caught', async () => {
+	const cassette: Cassette = {version: 1, calls: [{toolName: 'weather', args: {city: 'Paris'}, result: 1}]};
+	const sandbox = await createSandbox({tools: [offlineWeatherTool], replay: cassette});
+
+	const result = await sandbox.execute.handler({
+		code: 'try { await tool("weather", {city: "Berlin"}); } catch {} return "ok";',
+	});
+
+	expect(result).toMatchObject({
+		success: false,
+		result: 'ok',
+		error: 'Replay diverged at call 1: expected tool("weather", {"city":"Paris"}), got tool("weather", {"city":"Berlin"})',
+		errorDetails: {kind: 'replay', name: 'ReplayDivergenceError'},
+	});
+});
+
+test('replay fails when the code makes more calls than were recorded', async () => {
+	const sandbox = await createSandbox({tools: [offlineWeatherTool], replay: {version: 1, calls: []}});
+
+	const result = await sandbox.execute.handler({code: 'return tool("weather", {city: "Paris"});'});
+
+	expect(result.errorDetails).toMatchObject({
+		kind: 'replay',
+		message: 'Replay diverged at call 1: the cassette has 0 calls, but the code made another: tool("weather", {"city":"Paris"})',
+	});
+});
+
+test('assertReplayComplete throws when the code made fewer calls than were recorded', async () => {
+	const cassette: Cassette = {
+		version: 1,
+		calls: [
+			{toolName: 'weather', args: {city: 'Paris'}, result: 'first'},
+			{toolName: 'weather', args: {city: 'Rome'}, result: 'second'},
+		],
+	};
+	const sandbox = await createSandbox({tools: [offlineWeatherTool], replay: cassette});
+
+	await sandbox.execute.handler({code: 'return tool("weather", {city: "Paris"});'});
+	expect(() => {
+		sandbox.assertReplayComplete();
+	}).toThrow('Replay incomplete: the cassette has 2 calls, but the code made 1. Next expected: tool("weather", {"city":"Rome"})');
+
+	await sandbox.execute.handler({code: 'return tool("weather", {city: "Rome"});'});
+	sandbox.assertReplayComplete();
+});
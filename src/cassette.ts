@@ -0,0 +1,37 @@
+import {cacheKey} from './cache.js';
+import type {Cassette, CassetteCall} from './types.js';
+
+/** Describe a tool() call for divergence messages */
+function describeCall(toolName: string, args: unknown): string {
+	let argsText: string;
+	try {
+		argsText = JSON.stringify(args) ?? 'undefined';
+	} catch {
+		argsText = String(args);
+	}
+
+	return `tool(${JSON.stringify(toolName)}, ${argsText})`;
+}
+
+/** Find the cassette call at a position, or why the tool() call made there differs from it */
+export function matchReplayCall(cassette: Cassette, index: number, toolName: string, args: unknown): {call: CassetteCall} | {divergence: string} {
+	const call = cassette.calls[index];
+	if (!call) {
+		return {divergence: `Replay diverged at call ${index + 1}: the cassette has ${cassette.calls.length} calls, but the code made another: ${describeCall(toolName, args)}`};
+	}
+
+	// Compare like the result cache does, so key order doesn't matter
+	if (cacheKey(call.toolName, call.args) !== cacheKey(toolName, args)) {
+		return {divergence: `Replay diverged at call ${index + 1}: expected ${describeCall(call.toolName, call.args)}, got ${describeCall(toolName, args)}`};
+	}
+
+	return {call};
+}
+
+/** Throw if code made fewer calls than the cassette recorded, naming the first call it never made */
+export function assertReplayComplete(cassette: Cassette, used: number): void {
+	const next = cassette.calls[used];
+	if (next) {
+		throw new Error(`Replay incomplete: the cassette has ${cassette.calls.length} calls, but the code made ${used}. Next expected: ${describeCall(next.toolName, next.args)}`);
+	}
+}
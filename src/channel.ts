@@ -0,0 +1,35 @@
+import type {ExecuteResult} from './types.js';
+
+/** Delivers an execution's results (pending approvals, then the final result) to whoever asks for the next one */
+export type ResultChannel = {
+	push(item: {result: ExecuteResult} | {error: Error}): void;
+	next(): Promise<ExecuteResult>;
+};
+
+export function createResultChannel(): ResultChannel {
+	const queued: ({result: ExecuteResult} | {error: Error})[] = [];
+	const waiting: {resolve: (result: ExecuteResult) => void; reject: (error: Error) => void}[] = [];
+
+	return {
+		push(item) {
+			const waiter = waiting.shift();
+			if (!waiter) {
+				queued.push(item);
+			} else if ('result' in item) {
+				waiter.resolve(item.result);
+			} else {
+				waiter.reject(item.error);
+			}
+		},
+		async next() {
+			const item = queued.shift();
+			if (item) {
+				return 'result' in item ? item.result : Promise.reject(item.error);
+			}
+
+			return new Promise<ExecuteResult>((resolve, reject) => {
+				waiting.push({resolve, reject});
+			});
+		},
+	};
+}
@@ -0,0 +1,47 @@
+/** Extra description for executions in a persistent session */
+const SESSION_DESCRIPTION = `
+
+This is a persistent session: the JS environment survives between executions. Assign to globalThis (e.g. globalThis.parse = (s) => ...) to keep functions, Maps, class instances and other values for later executions. Top-level const/let/function declarations only last for one execution.`;
+
+/** Generate the execute tool description */
+export function generateExecuteDescription(toolNames: string[], session = false): string {
+	return `Run JavaScript in a sandboxed environment.${session ? SESSION_DESCRIPTION : ''}
+
+Available: tool(name, args), store (persistent), store._prev (last result), atob/btoa, and standard JS built-ins (JSON, Math, Date, Promise, etc.). Dates, Maps, Sets, BigInts, Uint8Arrays and undefined keep their types when passed to/from tools and store. console.log/info/warn/error/debug output is captured and returned as logs, but prefer return to pass data back.
+
+Binary data (images, audio, PDFs) from tools is automatically extracted. Tool results containing these will have the data replaced with refs like {type: 'blob_ref', id: 'blob_k7m2x9', mimeType: 'image/png'}. The actual content is returned separately. If you need the raw base64 data (e.g., to crop, resize, or pass to another tool), use tool('get_blob', {id}) which returns {id, data, mimeType}. Note: blobs are only available within the same execution - save to store if needed later.
+
+IMPORTANT: Call tool('describe_tool', {name}) to get a tool's schema before using it. Do not guess schemas.
+
+Available tools: ${toolNames.join(', ')}
+
+Example (placeholder tool names - use describe_tool for actual schemas):
+
+USER: What's on my on-call calendars in the next 24 hours?
+
+// Execution 1: Get schema first
+return await tool('describe_tool', {name: 'calendar__list'});
+
+// Execution 2: Fetch calendars, filter, get events, store and return count
+const calendars = await tool('calendar__list', {});
+const eventArrays = await Promise.all(calendars.map(cal =>
+  tool('calendar__events', {calendarId: cal.id, timeMin: new Date().toISOString(), timeMax: new Date(Date.now() + 86400000).toISOString()})
+));
+store.events = eventArrays.flat();
+return {count: store.events.length};
+
+USER: Which of those are standups?
+
+// Execution 3: Work with stored events, return summary
+const standups = store.events.filter(e => e.title.includes('standup'));
+return {count: standups.length, titles: standups.map(e => e.title)};
+
+USER: Any of those for tool-sandbox?
+
+// Execution 4: Filter previous result
+return store._prev.titles.filter(t => t.includes('tool-sandbox'));
+
+Style: Keep code short and simple. No comments or error handling needed. Return summaries rather than large objects.
+
+Limitations: No fetch/require/import/setTimeout/setInterval (use tools instead).`;
+}
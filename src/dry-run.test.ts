@@ -0,0 +1,93 @@
+import {test, expect, vi} from 'vitest';
+import {placeholderFor} from './dry-run';
+import {createSandbox, type Tool} from './index';
+
+/** Email tool with a side effect the dry run must not trigger */
+const createEmailTool = () => ({
+	name: 'send_email',
+	inputSchema: {type: 'object' as const, properties: {to: {type: 'string'}}},
+	outputSchema: {
+		type: 'object' as const,
+		properties: {id: {type: 'string'}, status: {enum: ['queued', 'sent']}, attempts: {type: 'integer', default: 1}},
+	},
+	handler: vi.fn(async () => ({id: 'msg_1', status: 'sent', attempts: 1})),
+});
+
+const usersTool: Tool = {
+	name: 'list_users',
+	inputSchema: {type: 'object'},
+	annotations: {readOnlyHint: true},
+	async handler() {
+		return ['a@example.com', 'b@example.com'];
+	},
+};
+
+test('placeholders follow the schema', () => {
+	expect(placeholderFor({
+		type: 'object',
+		properties: {
+			name: {type: 'string'},
+			count: {type: 'integer'},
+			ok: {type: 'boolean'},
+			tags: {type: 'array'},
+			kind: {enum: ['a', 'b']},
+			fixed: {const: 3},
+			size: {type: 'number', default: 10},
+			nested: {type: 'object', properties: {at: {type: ['string', 'null']}}},
+			anything: {},
+		},
+	})).toEqual({
+		name: '', count: 0, ok: false, tags: [], kind: 'a', fixed: 3, size: 10, nested: {at: ''}, anything: null,
+	});
+});
+
+test('dry run simulates side-effecting tools and lists them', async () => {
+	const emailTool = createEmailTool();
+	const sandbox = await createSandbox({tools: [usersTool, emailTool]});
+
+	const result = await sandbox.dryRun({
+		code: 'const users = await tool("list_users", {}); return Promise.all(users.map((to) => tool("send_email", {to})));',
+	});
+
+	expect(emailTool.handler).not.toHaveBeenCalled();
+	expect(result).toMatchObject({success: true, result: [{id: '', status: 'queued', attempts: 1}, {id: '', status: 'queued', attempts: 1}]});
+	expect(result.sideEffects).toEqual([
+		{
+			callId: expect.any(String), toolName: 'send_email', args: {to: 'a@example.com'}, result: {id: '', status: 'queued', attempts: 1},
+		},
+		{
+			callId: expect.any(String), toolName: 'send_email', args: {to: 'b@example.com'}, result: {id: '', status: 'queued', attempts: 1},
+		},
+	]);
+
+	// Running for real afterwards calls the tool
+	await sandbox.execute.handler({code: 'return tool("send_email", {to: "a@example.com"});'});
+	expect(emailTool.handler).toHaveBeenCalledExactlyOnceWith({to: 'a@example.com'}, undefined, expect.any(Object));
+});
+
+test('dry run uses a tool\'s mock, or null without an outputSchema', async () => {
+	const sandbox = await createSandbox({
+		tools: [
+			{...createEmailTool(), mock: async (args) => ({id: 'mock', to: (args as {to: string}).to})},
+			{name: 'delete_file', inputSchema: {type: 'object'}, handler: async () => 'deleted'},
+		],
+	});
+
+	const result = await sandbox.dryRun({
+		code: 'return [await tool("send_email", {to: "x"}), await tool("delete_file", {})];',
+	});
+
+	expect(result.result).toEqual([{id: 'mock', to: 'x'}, null]);
+	expect(result.sideEffects?.map((e) => e.toolName)).toEqual(['send_email', 'delete_file']);
+});
+
+test('dry run discards store changes', async () => {
+	const sandbox = await createSandbox({tools: []});
+	sandbox.store = {count: 1};
+
+	const result = await sandbox.dryRun({code: 'store.count += 1; return store.count;'});
+
+	expect(result).toMatchObject({success: true, result: 2, sideEffects: []});
+	expect(sandbox.store).toEqual({count: 1});
+	expect((await sandbox.execute.handler({code: 'return [store.count, store._prev];'})).result).toEqual([1, null]);
+});
@@ -0,0 +1,55 @@
+import type {Tool} from './types.js';
+
+/** A value matching a JSON Schema: its default, const or first enum value, else an empty value of its type */
+export function placeholderFor(schema: unknown): unknown {
+	if (typeof schema !== 'object' || schema === null) {
+		return null;
+	}
+
+	const s = schema as Record<string, unknown>;
+	if ('default' in s) {
+		return s.default;
+	}
+
+	if ('const' in s) {
+		return s.const;
+	}
+
+	if (Array.isArray(s.enum)) {
+		return s.enum[0] ?? null;
+	}
+
+	const type = Array.isArray(s.type) ? s.type[0] as unknown : s.type;
+	switch (type) {
+		case 'object': {
+			const properties = (s.properties ?? {}) as Record<string, unknown>;
+			return Object.fromEntries(Object.entries(properties).map(([key, propertySchema]) => [key, placeholderFor(propertySchema)]));
+		}
+
+		case 'array':
+			return [];
+		case 'string':
+			return '';
+		case 'number':
+		case 'integer':
+			return 0;
+		case 'boolean':
+			return false;
+		default:
+			return null;
+	}
+}
+
+/** Whether a dry run simulates a tool rather than calling it: everything not annotated readOnlyHint */
+export function isSideEffecting(tool: Tool): boolean {
+	return tool.annotations?.readOnlyHint !== true;
+}
+
+/** The result a dry run gives sandbox code instead of calling a side-effecting tool */
+export async function simulateToolCall(tool: Tool, args: unknown): Promise<unknown> {
+	if (tool.mock) {
+		return tool.mock(args);
+	}
+
+	return tool.outputSchema ? placeholderFor(tool.outputSchema) : null;
+}
@@ -0,0 +1,14 @@
+import {test, expect} from 'vitest';
+import {createSandbox} from './index';
+
+test('error details keep the cause', async () => {
+	const sandbox = await createSandbox({tools: []});
+
+	const fromOption = await sandbox.execute.handler({code: 'throw new Error("Sync failed", {cause: {code: 42}});'});
+	const assigned = await sandbox.execute.handler({code: 'const e = new Error("Sync failed"); e.cause = "offline"; throw e;'});
+	const rejected = await sandbox.execute.handler({code: 'await Promise.resolve(); throw new Error("Sync failed", {cause: "late"});'});
+
+	expect(fromOption.errorDetails).toMatchObject({message: 'Sync failed', cause: {code: 42}});
+	expect(assigned.errorDetails?.cause).toBe('offline');
+	expect(rejected.errorDetails?.cause).toBe('late');
+});
@@ -0,0 +1,51 @@
+import type {QuickJSContext, QuickJSHandle} from 'quickjs-emscripten';
+
+/** Filename sandbox code is evaluated under, so its frames can be found in stack traces */
+export const CODE_FILENAME = 'code.js';
+
+/** Lines the async IIFE wrapper adds before the submitted code */
+export const WRAPPER_LINE_OFFSET = 1;
+
+/** Remap stack frames from the wrapped code to the submitted code, dropping wrapper-only frames */
+export function remapStack(stack: string, codeLineCount: number): {stack: string; line: number | undefined} {
+	let line: number | undefined;
+	const frames = stack.split('\n').filter((frame) => frame.trim() !== '').flatMap((frame) => {
+		const match = new RegExp(`${CODE_FILENAME.replace('.', '\\.')}:(\\d+)`).exec(frame);
+		if (!match) {
+			return [frame];
+		}
+
+		const codeLine = Number(match[1]) - WRAPPER_LINE_OFFSET;
+		if (codeLine < 1 || codeLine > codeLineCount) {
+			return [];
+		}
+
+		line ??= codeLine;
+		return [frame.replace(match[0], `${CODE_FILENAME}:${codeLine}`)];
+	});
+
+	return {stack: frames.join('\n'), line};
+}
+
+/** Add helpful hints to common error messages */
+export function augmentErrorMessage(errorStr: string): string {
+	// setTimeout/setInterval not available - suggest sleep tool
+	if (errorStr.includes('\'setTimeout\' is not defined') || errorStr.includes('\'setInterval\' is not defined')) {
+		return `${errorStr}. Hint: Use await tool('sleep', {ms: N}) for delays.`;
+	}
+
+	return errorStr;
+}
+
+/** Dump a QuickJS error, keeping the non-enumerable cause that new Error(message, {cause}) sets */
+export function dumpVmError(vm: QuickJSContext, handle: QuickJSHandle): unknown {
+	const error: unknown = vm.dump(handle);
+	if (typeof error !== 'object' || error === null || 'cause' in error) {
+		return error;
+	}
+
+	const causeHandle = vm.getProp(handle, 'cause');
+	const cause: unknown = vm.dump(causeHandle);
+	causeHandle.dispose();
+	return cause === undefined ? error : {...error, cause};
+}
@@ -1,5 +1,8 @@
+import {getEventListeners} from 'node:events';
 import {test, expect, vi} from 'vitest';
-import {createSandbox, type Tool} from './index';
+import {
+	createSandbox, createMemoryStoreAdapter, type StoreAdapter, type Tool,
+} from './index';
 
 const addTool: Tool = {
 	name: 'add',
@@ -91,6 +94,14 @@ test('handles tool not found', async () => {
 		success: false,
 		blobs: [],
 		error: 'Tool not found: nonexistent',
+		errorDetails: {
+			kind: 'tool',
+			name: 'Error',
+			message: 'Tool not found: nonexistent',
+			stack: '    at <anonymous> (code.js:1)',
+			line: 1,
+			toolName: 'nonexistent',
+		},
 	});
 });
 
@@ -108,10 +119,11 @@ test('handles tool errors', async () => {
 	const result = await sandbox.execute.handler({
 		code: 'return await tool(\'fail\', {})',
 	});
-	expect(result).toEqual({
+	expect(result).toMatchObject({
 		success: false,
 		blobs: [],
 		error: 'Intentional failure',
+		errorDetails: {kind: 'tool', toolName: 'fail', message: 'Intentional failure'},
 	});
 });
 
@@ -122,6 +134,137 @@ test('handles syntax errors', async () => {
 	expect(result.error).toMatchInlineSnapshot('"expecting \';\'"');
 });
 
+test('syntax errors have structured details with the line in submitted code', async () => {
+	const sandbox = await createSandbox({tools: []});
+	const result = await sandbox.execute.handler({code: 'const a = 1;\nreturn {'});
+
+	expect(result.errorDetails).toMatchObject({kind: 'syntax', name: 'SyntaxError', line: 2});
+});
+
+test('runtime errors have a stack remapped to submitted code', async () => {
+	const sandbox = await createSandbox({tools: []});
+	const result = await sandbox.execute.handler({
+		code: 'const x = 1;\nfunction f() {\n  return null.x;\n}\nreturn f();',
+	});
+
+	expect(result.success).toBe(false);
+	expect(result.errorDetails).toMatchObject({kind: 'runtime', name: 'TypeError', line: 3});
+	expect(result.errorDetails?.stack).toContain('at f (code.js:3)');
+	expect(result.errorDetails?.stack).toContain('at <anonymous> (code.js:5)');
+	expect(result.errorDetails?.stack).not.toContain('<eval>');
+});
+
+test('code ending in a line comment still runs', async () => {
+	const sandbox = await createSandbox({tools: []});
+	const result = await sandbox.execute.handler({code: 'return 1; // done'});
+	expect(result).toEqual({success: true, blobs: [], result: 1});
+});
+
+test('truncated results have truncated error details', async () => {
+	const sandbox = await createSandbox({tools: [], experimental_maxResultChars: 5});
+	const result = await sandbox.execute.handler({code: 'return \'abcdefgh\''});
+
+	expect(result).toMatchObject({
+		success: true,
+		result: 'abcdefgh',
+		errorDetails: {kind: 'truncated', message: 'Result truncated (10 > 5 chars)'},
+	});
+});
+
+test('validateToolInput rejects args that do not match inputSchema', async () => {
+	const handler = vi.fn(async () => 'called');
+	const tool: Tool = {
+		name: 'send',
+		description: 'Send a message',
+		inputSchema: {
+			type: 'object',
+			properties: {to: {type: 'string', format: 'email'}, count: {type: 'integer'}},
+			required: ['to'],
+		},
+		handler,
+	};
+
+	const sandbox = await createSandbox({tools: [tool], validateToolInput: true});
+	const result = await sandbox.execute.handler({code: 'return await tool(\'send\', {to: \'bob\', count: 1.5})'});
+
+	expect(handler).not.toHaveBeenCalled();
+	expect(result.success).toBe(false);
+	expect(result.error).toBe('Invalid arguments for tool send: args.to must be a valid email (expected schema: {"type":"string","format":"email"}); args.count must be integer, got number (expected schema: {"type":"integer"})');
+	expect(result.errorDetails).toMatchObject({kind: 'tool', toolName: 'send'});
+});
+
+test('validateToolInput passes valid args through', async () => {
+	const sandbox = await createSandbox({tools: [addTool], validateToolInput: true});
+	const result = await sandbox.execute.handler({code: 'return await tool(\'add\', {a: 1, b: 2})'});
+	expect(result).toEqual({success: true, blobs: [], result: 3});
+});
+
+test('tool input is not validated by default', async () => {
+	const sandbox = await createSandbox({tools: [addTool]});
+	const result = await sandbox.execute.handler({code: 'return await tool(\'add\', {a: \'1\', b: 2})'});
+	expect(result).toEqual({success: true, blobs: [], result: '12'});
+});
+
+const driftingTool: Tool = {
+	name: 'drift',
+	description: 'Returns a result that does not match its outputSchema',
+	inputSchema: {type: 'object'},
+	outputSchema: {
+		type: 'object',
+		properties: {total: {type: 'number'}},
+		required: ['total'],
+	},
+	async handler() {
+		return {total: '42'};
+	},
+};
+
+test('validateToolOutput warn reports mismatches and passes the result through', async () => {
+	const onToolOutputMismatch = vi.fn();
+	const sandbox = await createSandbox({tools: [driftingTool], validateToolOutput: 'warn', onToolOutputMismatch});
+	const result = await sandbox.execute.handler({code: 'return await tool(\'drift\', {})'});
+
+	expect(result).toEqual({success: true, blobs: [], result: {total: '42'}});
+	expect(onToolOutputMismatch).toHaveBeenCalledWith({
+		toolName: 'drift',
+		args: {},
+		result: {total: '42'},
+		violations: [{path: 'result.total', message: 'must be number, got string', schema: {type: 'number'}}],
+		policy: 'warn',
+	});
+});
+
+test('validateToolOutput coerce converts the result towards the schema', async () => {
+	const onToolOutputMismatch = vi.fn();
+	const sandbox = await createSandbox({tools: [driftingTool], validateToolOutput: 'coerce', onToolOutputMismatch});
+	const result = await sandbox.execute.handler({code: 'return await tool(\'drift\', {})'});
+
+	expect(result).toEqual({success: true, blobs: [], result: {total: 42}});
+	expect(onToolOutputMismatch).toHaveBeenCalledWith(expect.objectContaining({
+		policy: 'coerce', coercedResult: {total: 42}, remainingViolations: [],
+	}));
+});
+
+test('validateToolOutput throw rejects the tool call', async () => {
+	const sandbox = await createSandbox({tools: [driftingTool], validateToolOutput: 'throw'});
+	const result = await sandbox.execute.handler({code: 'return await tool(\'drift\', {})'});
+
+	expect(result).toMatchObject({
+		success: false,
+		error: 'Result of tool drift does not match its outputSchema: result.total must be number, got string (expected schema: {"type":"number"})',
+		errorDetails: {kind: 'tool', toolName: 'drift'},
+	});
+});
+
+test('tool output is not validated by default', async () => {
+	const onToolOutputMismatch = vi.fn();
+	const sandbox = await createSandbox({tools: [driftingTool], onToolOutputMismatch});
+	const result = await sandbox.execute.handler({code: 'return await tool(\'drift\', {})'});
+
+	expect(result).toEqual({success: true, blobs: [], result: {total: '42'}});
+	expect(onToolOutputMismatch).not.toHaveBeenCalled();
+});
+
 test('onBeforeToolCall can modify args', async () => {
 	const handler = vi.fn(async (args) => args);
 	const tool: Tool = {
@@ -142,7 +285,7 @@ test('onBeforeToolCall can modify args', async () => {
 		code: 'return await tool(\'test\', { original: true })',
 	});
 
-	expect(handler).toHaveBeenCalledWith({original: true, injected: true});
+	expect(handler).toHaveBeenCalledWith({original: true, injected: true}, undefined, expect.objectContaining({tool}));
 });
 
 test('onBeforeToolCall can short-circuit with returnValue', async () => {
@@ -183,7 +326,12 @@ test('onBeforeToolCall can block with error', async () => {
 		code: 'return await tool(\'add\', { a: 1, b: 2 })',
 	});
 
-	expect(result).toEqual({success: false, blobs: [], error: 'Blocked'});
+	expect(result).toMatchObject({
+		success: false,
+		blobs: [],
+		error: 'Blocked',
+		errorDetails: {kind: 'tool', toolName: 'add'},
+	});
 });
 
 test('onToolCallSuccess can modify result', async () => {
@@ -225,6 +373,75 @@ test('onToolCallError can recover', async () => {
 	expect(result).toEqual({success: true, blobs: [], result: {recovered: true}});
 });
 
+test('hooks may be async and are awaited', async () => {
+	const order: string[] = [];
+	const sandbox = await createSandbox({
+		tools: [addTool],
+		async onBeforeToolCall(event) {
+			// e.g. waiting for a human to approve
+			await new Promise((resolve) => {
+				setTimeout(resolve, 20);
+			});
+			order.push('approved');
+			if ((event.args as {a: number}).a < 0) {
+				throw new Error('Denied');
+			}
+		},
+		async onToolCallSuccess(event) {
+			await Promise.resolve();
+			order.push('success');
+			event.result = (event.result as number) + 100;
+		},
+	});
+
+	const result = await sandbox.execute.handler({
+		code: 'const ok = await tool(\'add\', {a: 1, b: 2}); try { await tool(\'add\', {a: -1, b: 0}); } catch (e) { return [ok, e.message]; }',
+	});
+
+	expect(result.result).toEqual([103, 'Denied']);
+	expect(order).toEqual(['approved', 'success', 'approved']);
+});
+
+test('async onToolCallError can recover', async () => {
+	const sandbox = await createSandbox({
+		tools: [{
+			name: 'fail', description: 'Fails', inputSchema: {type: 'object'}, handler: async () => Promise.reject(new Error('nope')),
+		}],
+		async onToolCallError(event) {
+			await Promise.resolve();
+			event.result = `recovered from ${event.error.message}`;
+		},
+	});
+
+	const result = await sandbox.execute.handler({code: 'return await tool(\'fail\', {})'});
+	expect(result.result).toBe('recovered from nope');
+});
+
+test('hook events include call id, execution id, tool and code', async () => {
+	const annotatedTool: Tool = {...addTool, annotations: {readOnlyHint: true}};
+	const events: {callId: string; executionId: string; tool: Tool; code: string}[] = [];
+	const sandbox = await createSandbox({
+		tools: [annotatedTool],
+		trace: true,
+		onBeforeToolCall(event) {
+			events.push(event);
+		},
+		onToolCallSuccess(event) {
+			events.push(event);
+		},
+	});
+
+	const code = 'return await tool(\'add\', {a: 1, b: 2})';
+	const result = await sandbox.execute.handler({code});
+
+	const [before, success] = events;
+	expect(before).toMatchObject({tool: annotatedTool, code});
+	expect(before!.tool.annotations).toEqual({readOnlyHint: true});
+	expect(before!.callId).toBe(result.trace!.toolCalls[0]!.callId);
+	expect(before!.executionId).toBe(result.trace!.executionId);
+	expect(success!.callId).toBe(before!.callId);
+});
+
 test('built-in describe_tool works', async () => {
 	const sandbox = await createSandbox({tools: [addTool]});
 	const result = await sandbox.execute.handler({
@@ -265,7 +482,7 @@ test('removeTool works', async () => {
 		code: 'return await tool(\'add\', { a: 1, b: 1 })',
 	});
 
-	expect(result).toEqual({success: false, blobs: [], error: 'Tool not found: add'});
+	expect(result).toMatchObject({success: false, blobs: [], error: 'Tool not found: add'});
 });
 
 test('throws on duplicate tool names at creation', async () => {
@@ -397,6 +614,7 @@ test('sandbox has expected globals', async () => {
 		  "WeakSet": "function",
 		  "atob": "function",
 		  "btoa": "function",
+		  "console": "object",
 		  "decodeURI": "function",
 		  "decodeURIComponent": "function",
 		  "encodeURI": "function",
@@ -416,6 +634,210 @@ test('sandbox has expected globals', async () => {
 	`);
 });
 
+test('console output is captured in logs', async () => {
+	const sandbox = await createSandbox({tools: []});
+	const result = await sandbox.execute.handler({
+		code: `
+			console.log('count:', 3, {a: 1});
+			console.warn('careful');
+			console.error(undefined, null, [1, 2]);
+			return 'done';
+		`,
+	});
+
+	expect(result.success).toBe(true);
+	expect(result.result).toBe('done');
+	expect(result.logs?.map(({level, message}) => ({level, message}))).toEqual([
+		{level: 'log', message: 'count: 3 {"a":1}'},
+		{level: 'warn', message: 'careful'},
+		{level: 'error', message: 'undefined null [1,2]'},
+	]);
+	expect(typeof result.logs?.[0]?.timestamp).toBe('number');
+});
+
+test('logs are kept when execution fails', async () => {
+	const sandbox = await createSandbox({tools: []});
+	const result = await sandbox.execute.handler({
+		code: 'console.info(\'before\'); throw new Error(\'boom\');',
+	});
+
+	expect(result.success).toBe(false);
+	expect(result.error).toBe('boom');
+	expect(result.logs?.map((l) => l.message)).toEqual(['before']);
+});
+
+test('logs are truncated past experimental_maxLogChars', async () => {
+	const sandbox = await createSandbox({tools: [], experimental_maxLogChars: 10});
+	const result = await sandbox.execute.handler({
+		code: 'console.log(\'123456\'); console.log(\'abcdef\'); console.log(\'more\');',
+	});
+
+	expect(result.success).toBe(true);
+	expect(result.logs?.map((l) => l.message)).toEqual([
+		'123456',
+		'abcd',
+		'Logs truncated (16 > 10 chars)',
+	]);
+});
+
+test('timeoutMs interrupts CPU-bound loops', async () => {
+	const sandbox = await createSandbox({tools: [], timeoutMs: 100});
+
+	const start = Date.now();
+	const result = await sandbox.execute.handler({code: 'while (true) {}'});
+
+	expect(result).toEqual({
+		success: false,
+		blobs: [],
+		error: 'Execution timed out after 100ms',
+		errorDetails: {kind: 'timeout', name: 'TimeoutError', message: 'Execution timed out after 100ms'},
+	});
+	expect(Date.now() - start).toBeLessThan(2000);
+});
+
+test('timeoutMs interrupts loops that catch errors', async () => {
+	const sandbox = await createSandbox({tools: [], timeoutMs: 100});
+	const result = await sandbox.execute.handler({
+		code: 'while (true) { try { while (true) {} } catch {} }',
+	});
+
+	expect(result.error).toBe('Execution timed out after 100ms');
+});
+
+test('timeoutMs names in-flight tool calls', async () => {
+	const sandbox = await createSandbox({tools: [], timeoutMs: 100});
+	const result = await sandbox.execute.handler({
+		code: 'await tool(\'sleep\', {ms: 5000})',
+	});
+
+	expect(result.error).toBe('Execution timed out after 100ms while waiting for tool call(s): sleep');
+});
+
+test('memoryLimitBytes stops runaway allocation', async () => {
+	const sandbox = await createSandbox({tools: [], memoryLimitBytes: 2 * 1024 * 1024});
+	const result = await sandbox.execute.handler({
+		code: 'const a = []; while (true) { a.push({i: a.length}); }',
+	});
+
+	expect(result).toMatchObject({
+		success: false,
+		error: `Memory limit exceeded (${2 * 1024 * 1024} bytes)`,
+		errorDetails: {kind: 'limit'},
+	});
+});
+
+test('maxStackSizeBytes stops deep recursion', async () => {
+	const sandbox = await createSandbox({tools: [], maxStackSizeBytes: 64 * 1024});
+	const result = await sandbox.execute.handler({
+		code: 'function f() { return f() + 1; } return f();',
+	});
+
+	expect(result).toMatchObject({
+		success: false,
+		error: `Maximum stack size exceeded (${64 * 1024} bytes)`,
+		errorDetails: {kind: 'limit'},
+	});
+});
+
+test('sandbox is usable again after hitting a limit', async () => {
+	const sandbox = await createSandbox({tools: [], timeoutMs: 100});
+	await sandbox.execute.handler({code: 'while (true) {}'});
+	const result = await sandbox.execute.handler({code: 'return 1 + 1'});
+
+	expect(result).toEqual({success: true, blobs: [], result: 2});
+});
+
+test('AbortSignal cancels an in-flight execution', async () => {
+	let handlerSignal: AbortSignal | undefined;
+	const waitTool: Tool = {
+		name: 'wait',
+		description: 'Waits until aborted',
+		inputSchema: {type: 'object'},
+		async handler(_args, signal) {
+			handlerSignal = signal;
+			return new Promise((_resolve, reject) => {
+				signal?.addEventListener('abort', () => {
+					reject(new Error('aborted'));
+				});
+			});
+		},
+	};
+
+	const sandbox = await createSandbox({tools: [waitTool]});
+	const controller = new AbortController();
+	setTimeout(() => {
+		controller.abort();
+	}, 50);
+
+	const start = Date.now();
+	const result = await sandbox.execute.handler({
+		code: 'console.log(\'started\'); await tool(\'wait\', {}); return \'finished\';',
+	}, controller.signal);
+
+	expect(result).toMatchObject({success: false, error: 'Execution cancelled', cancelled: true});
+	expect(result.logs?.map((l) => l.message)).toEqual(['started']);
+	expect(handlerSignal?.aborted).toBe(true);
+	expect(Date.now() - start).toBeLessThan(1000);
+});
+
+test('AbortSignal keeps blobs gathered before cancellation', async () => {
+	const imageTool: Tool = {
+		name: 'screenshot',
+		description: 'Returns a fake image',
+		inputSchema: {type: 'object'},
+		async handler() {
+			return {type: 'image', data: 'aW1hZ2U=', mimeType: 'image/png'};
+		},
+	};
+
+	const sandbox = await createSandbox({tools: [imageTool]});
+	const controller = new AbortController();
+	setTimeout(() => {
+		controller.abort();
+	}, 50);
+
+	const result = await sandbox.execute.handler({
+		code: 'await tool(\'screenshot\', {}); await tool(\'sleep\', {ms: 5000});',
+	}, controller.signal);
+
+	expect(result.cancelled).toBe(true);
+	expect(result.blobs).toHaveLength(1);
+});
+
+test('AbortSignal listeners are removed when executions end', async () => {
+	const sandbox = await createSandbox({tools: []});
+	const controller = new AbortController();
+
+	for (let i = 0; i < 3; i += 1) {
+		// eslint-disable-next-line no-await-in-loop -- Executions share the signal one after another
+		const result = await sandbox.execute.handler({
+			code: 'for (let i = 0; i < 20; i++) await tool(\'sleep\', {ms: 1}); return \'done\';',
+		}, controller.signal);
+		expect(result.success).toBe(true);
+	}
+
+	expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+});
+
+test('already-aborted signal does not run code', async () => {
+	const handler = vi.fn(async () => 'called');
+	const tool: Tool = {
+		name: 'test', description: 'Test tool', inputSchema: {type: 'object'}, handler,
+	};
+
+	const sandbox = await createSandbox({tools: [tool]});
+	const result = await sandbox.execute.handler({code: 'return await tool(\'test\', {})'}, AbortSignal.abort());
+
+	expect(result).toEqual({
+		success: false,
+		error: 'Execution cancelled',
+		errorDetails: {kind: 'cancelled', name: 'AbortError', message: 'Execution cancelled'},
+		blobs: [],
+		cancelled: true,
+	});
+	expect(handler).not.toHaveBeenCalled();
+});
+
 test('dynamic import is not available in sandbox', async () => {
 	const sandbox = await createSandbox({tools: []});
 	const result = await sandbox.execute.handler({code: 'return import("foo")'});
@@ -705,3 +1127,385 @@ test('Promise.race abandoned promise .then() callbacks do NOT affect store', asy
 	// The slow promise's .then() should NOT have run - we exited before it completed
 	expect(sandbox.store.modified).toBe(false);
 });
+
+test('sessions keep JS state between executions', async () => {
+	const sandbox = await createSandbox({tools: []});
+	const session = sandbox.createSession();
+
+	const first = await session.execute.handler({
+		code: `
+			globalThis.counter = new Map([['n', 1]]);
+			globalThis.bump = () => counter.set('n', counter.get('n') + 1).get('n');
+			const local = 'gone next time';
+			return bump();
+		`,
+	});
+	expect(first).toMatchObject({success: true, result: 2});
+
+	const second = await session.execute.handler({code: 'return [bump(), typeof local];'});
+	expect(second).toMatchObject({success: true, result: [3, 'undefined']});
+
+	// Plain sandbox executions are not affected
+	const isolated = await sandbox.execute.handler({code: 'return typeof bump;'});
+	expect(isolated.result).toBe('undefined');
+
+	session.dispose();
+});
+
+test('session reset discards VM state', async () => {
+	const sandbox = await createSandbox({tools: []});
+	const session = sandbox.createSession();
+
+	await session.execute.handler({code: 'globalThis.x = 42;'});
+	session.reset();
+	const result = await session.execute.handler({code: 'return typeof x;'});
+	expect(result.result).toBe('undefined');
+
+	session.dispose();
+});
+
+test('disposed sessions reject executions', async () => {
+	const sandbox = await createSandbox({tools: []});
+	const session = sandbox.createSession();
+	session.dispose();
+
+	await expect(session.execute.handler({code: 'return 1;'})).rejects.toThrow('Session has been disposed');
+});
+
+test('sessions apply timeouts and stay usable afterwards', async () => {
+	const sandbox = await createSandbox({tools: [], timeoutMs: 200});
+	const session = sandbox.createSession();
+
+	await session.execute.handler({code: 'globalThis.kept = "yes";'});
+	const timedOut = await session.execute.handler({code: 'while (true) {}'});
+	expect(timedOut.errorDetails?.kind).toBe('timeout');
+
+	const after = await session.execute.handler({code: 'return kept;'});
+	expect(after).toMatchObject({success: true, result: 'yes'});
+
+	session.dispose();
+});
+
+test('session executions run one at a time', async () => {
+	const sandbox = await createSandbox({tools: []});
+	const session = sandbox.createSession();
+
+	const [a, b] = await Promise.all([
+		session.execute.handler({code: 'globalThis.log = []; log.push("a1"); await tool("sleep", {ms: 50}); log.push("a2"); return log.length;'}),
+		session.execute.handler({code: 'log.push("b"); return log;'}),
+	]);
+	expect(a.result).toBe(2);
+	expect(b.result).toEqual(['a1', 'a2', 'b']);
+
+	session.dispose();
+});
+
+test('session execute description follows tool changes', async () => {
+	const sandbox = await createSandbox({tools: []});
+	const session = sandbox.createSession();
+	expect(session.execute.description).toContain('persistent session');
+
+	sandbox.addTool({
+		name: 'newTool', description: 'New', inputSchema: {type: 'object'}, handler: async () => 'ok',
+	});
+	expect(session.execute.description).toContain('newTool');
+
+	session.dispose();
+});
+
+test('store is loaded from and saved to the storeAdapter', async () => {
+	const storeAdapter = createMemoryStoreAdapter({visits: 1});
+
+	const first = await createSandbox({tools: [], storeAdapter});
+	expect(first.store).toEqual({visits: 1});
+	await first.execute.handler({code: 'store.visits += 1; store.note = "hi";'});
+
+	// A new sandbox (e.g. on another worker) picks up where the first left off
+	const second = await createSandbox({tools: [], storeAdapter});
+	expect(second.store).toEqual({visits: 2, note: 'hi'});
+});
+
+test('only changed keys are written when the adapter supports set', async () => {
+	const writes: string[] = [];
+	const storeAdapter: StoreAdapter = {
+		load: async () => ({keep: 1, change: 1, remove: 1}),
+		async save() {
+			throw new Error('save should not be called');
+		},
+		async set(key) {
+			writes.push(key);
+		},
+	};
+
+	const sandbox = await createSandbox({tools: [], storeAdapter});
+	const result = await sandbox.execute.handler({code: 'store.change = 2; delete store.remove; store.add = 1;'});
+
+	expect(result.success).toBe(true);
+	expect(writes.sort()).toEqual(['add', 'change', 'remove']);
+});
+
+test('store save failures are reported', async () => {
+	const storeAdapter: StoreAdapter = {
+		load: async () => undefined,
+		async save() {
+			throw new Error('disk full');
+		},
+	};
+
+	const sandbox = await createSandbox({tools: [], storeAdapter});
+	const result = await sandbox.execute.handler({code: 'store.x = 1; return "done";'});
+
+	expect(result).toMatchObject({
+		success: false,
+		result: 'done',
+		error: 'Failed to save store: disk full',
+		errorDetails: {kind: 'store', name: 'StoreError'},
+	});
+});
+
+test('store keys are only fetched from the host when accessed', async () => {
+	const sandbox = await createSandbox({tools: []});
+	const bigGetter = vi.fn(() => ({rows: ['lots', 'of', 'data']}));
+	sandbox.store = Object.defineProperty({small: 1}, 'big', {get: bigGetter, enumerable: true});
+
+	const result = await sandbox.execute.handler({code: 'return [store.small, Object.keys(store), "big" in store];'});
+
+	expect(result.result).toEqual([1, ['small', 'big', '_prev'], true]);
+	expect(bigGetter).not.toHaveBeenCalled();
+});
+
+test('only dirtied store keys are written back, including in-place mutations', async () => {
+	const writes: string[] = [];
+	const storeAdapter: StoreAdapter = {
+		load: async () => ({list: [1], untouched: [2], gone: 3}),
+		save: async () => undefined,
+		async set(key) {
+			writes.push(key);
+		},
+	};
+	const sandbox = await createSandbox({tools: [], storeAdapter});
+
+	const result = await sandbox.execute.handler({
+		code: `
+			store.list.push(2);
+			const same = store.list === store.list;
+			const length = store.untouched.length;
+			delete store.gone;
+			return {same, length};
+		`,
+	});
+
+	expect(result.result).toEqual({same: true, length: 1});
+	expect(writes.sort()).toEqual(['gone', 'list']);
+	expect(sandbox.store).toEqual({list: [1, 2], untouched: [2]});
+});
+
+test('maxStoreBytes rejects writes that would exceed the quota', async () => {
+	const sandbox = await createSandbox({tools: [], maxStoreBytes: 50});
+	sandbox.store = {existing: 'abc'};
+
+	const uncaught = await sandbox.execute.handler({code: 'store.big = "x".repeat(100);'});
+	expect(uncaught.success).toBe(false);
+	expect(uncaught.errorDetails).toMatchObject({kind: 'limit', name: 'StoreQuotaError'});
+	expect(uncaught.error).toContain('Store quota exceeded: writing store.big would grow the store to');
+
+	// The error can be caught, and in-place growth is caught when the store is written back
+	const caught = await sandbox.execute.handler({
+		code: `
+			try { store.big = "x".repeat(100); } catch (e) { store.caught = e.name; }
+			return store.caught;
+		`,
+	});
+	expect(caught).toMatchObject({success: true, result: 'StoreQuotaError'});
+
+	await sandbox.execute.handler({code: 'store.list = [];'});
+	const grown = await sandbox.execute.handler({code: 'store.list.push("y".repeat(100)); return "done";'});
+	expect(grown.errorDetails?.name).toBe('StoreQuotaError');
+	expect(sandbox.store).toEqual({existing: 'abc', caught: 'StoreQuotaError', list: []});
+});
+
+test('non-JSON values cross the host/VM boundary intact', async () => {
+	const received: unknown[] = [];
+	const sandbox = await createSandbox({
+		tools: [{
+			name: 'echo',
+			description: 'Returns rich values',
+			inputSchema: {type: 'object'},
+			async handler(args) {
+				received.push(args);
+				return {
+					when: new Date('2024-01-02T00:00:00.000Z'),
+					bytes: new Uint8Array([1, 2, 3, 250]),
+					tags: new Set(['a']),
+					count: 2n ** 64n,
+					optional: undefined,
+				};
+			},
+		}],
+	});
+
+	const result = await sandbox.execute.handler({
+		code: `
+			const r = await tool('echo', {since: new Date(0), ids: new Map([[1, 'one']])});
+			store.seen = new Map([['bytes', r.bytes]]);
+			return {
+				isDate: r.when instanceof Date,
+				year: r.when.getUTCFullYear(),
+				bytes: Array.from(r.bytes),
+				hasTag: r.tags.has('a'),
+				count: r.count + 1n,
+				hasOptional: 'optional' in r,
+				undef: undefined,
+			};
+		`,
+	});
+
+	expect(result.success).toBe(true);
+	expect(result.result).toEqual({
+		isDate: true, year: 2024, bytes: [1, 2, 3, 250], hasTag: true, count: (2n ** 64n) + 1n, hasOptional: true, undef: undefined,
+	});
+	expect(received).toEqual([{since: new Date(0), ids: new Map([[1, 'one']])}]);
+	expect(sandbox.store.seen).toEqual(new Map([['bytes', new Uint8Array([1, 2, 3, 250])]]));
+
+	const next = await sandbox.execute.handler({code: 'return [store.seen.get("bytes") instanceof Uint8Array, store._prev.count];'});
+	expect(next.result).toEqual([true, (2n ** 64n) + 1n]);
+});
+
+test('trace records each tool call with timings and overlap', async () => {
+	const sandbox = await createSandbox({tools: [addTool], trace: true});
+
+	const result = await sandbox.execute.handler({
+		code: `
+			await Promise.all([tool('sleep', {ms: 50}), tool('sleep', {ms: 50})]);
+			await tool('add', {a: 1, b: 2});
+			try { await tool('missing', {}); } catch {}
+			return 'done';
+		`,
+	});
+
+	const {trace} = result;
+	expect(trace).toBeDefined();
+	expect(trace!.executionId).toMatch(/^exec_/);
+	expect(trace!.toolCalls.map((c) => [c.toolName, c.outcome])).toEqual([
+		['sleep', 'success'], ['sleep', 'success'], ['add', 'success'], ['missing', 'error'],
+	]);
+
+	const [first, second, add, missing] = trace!.toolCalls;
+	expect(first!.callId).not.toBe(second!.callId);
+	expect(first!.overlappingCallIds).toEqual([second!.callId]);
+	expect(first!.durationMs).toBeGreaterThanOrEqual(40);
+	expect(first!.args).toEqual({ms: 50});
+	expect(add).toMatchObject({args: {a: 1, b: 2}, resultSize: 1, overlappingCallIds: []});
+	expect(missing).toMatchObject({error: 'Tool not found: missing'});
+
+	expect(trace!.maxConcurrency).toBe(2);
+	expect(trace!.toolWaitMs).toBeGreaterThanOrEqual(40);
+	expect(trace!.toolWaitMs).toBeLessThanOrEqual(trace!.durationMs);
+	expect(trace!.vmTimeMs).toBeGreaterThan(0);
+});
+
+test('trace marks calls still running at the end as unfinished', async () => {
+	const sandbox = await createSandbox({tools: [], trace: true});
+
+	const result = await sandbox.execute.handler({
+		code: 'return Promise.race([tool("sleep", {ms: 10}), tool("sleep", {ms: 500})]);',
+	});
+
+	expect(result.trace!.toolCalls.map((c) => c.outcome)).toEqual(['success', 'unfinished']);
+});
+
+test('trace is omitted unless enabled', async () => {
+	const sandbox = await createSandbox({tools: []});
+	const result = await sandbox.execute.handler({code: 'return 1;'});
+	expect(result.trace).toBeUndefined();
+});
+
+test('executions pause for approval and resume without re-running earlier calls', async () => {
+	const deleted: unknown[] = [];
+	const reads = vi.fn(async () => ['a.txt', 'b.txt']);
+	const sandbox = await createSandbox({
+		tools: [
+			{
+				name: 'list', description: 'List files', inputSchema: {type: 'object'}, handler: reads,
+			},
+			{
+				name: 'delete',
+				description: 'Delete a file',
+				inputSchema: {type: 'object'},
+				async handler(args) {
+					deleted.push(args);
+					return 'deleted';
+				},
+			},
+		],
+		requireApproval: (event) => event.toolName === 'delete',
+	});
+
+	const code = 'const files = await tool("list", {}); const r = await tool("delete", {path: files[0]}); return [r, files.length];';
+	const pending = await sandbox.execute.handler({code});
+
+	expect(pending).toMatchObject({
+		success: false,
+		status: 'pending_approval',
+		approval: {toolName: 'delete', args: {path: 'a.txt'}, code},
+	});
+	expect(deleted).toEqual([]);
+
+	const result = await sandbox.resolveApproval(pending.approval!.id, {modifiedArgs: {path: 'b.txt'}});
+
+	expect(result).toEqual({success: true, result: ['deleted', 2], blobs: []});
+	expect(deleted).toEqual([{path: 'b.txt'}]);
+	expect(reads).toHaveBeenCalledTimes(1);
+	await expect(sandbox.resolveApproval(pending.approval!.id, 'approved')).rejects.toThrow('No pending approval');
+});
+
+test('denied approvals reject the tool call', async () => {
+	const sandbox = await createSandbox({tools: [addTool], requireApproval: async () => true});
+
+	const pending = await sandbox.execute.handler({
+		code: 'try { return await tool("add", {a: 1, b: 2}); } catch (e) { return e.message; }',
+	});
+	const result = await sandbox.resolveApproval(pending.approval!.id, 'denied');
+
+	expect(result).toMatchObject({success: true, result: 'Tool call add was denied'});
+});
+
+test('parallel calls needing approval are returned one at a time', async () => {
+	const sandbox = await createSandbox({tools: [addTool], requireApproval: () => true});
+
+	const first = await sandbox.execute.handler({
+		code: 'return Promise.all([tool("add", {a: 1, b: 1}), tool("add", {a: 2, b: 2})]);',
+	});
+	expect(first.approval!.args).toEqual({a: 1, b: 1});
+
+	const second = await sandbox.resolveApproval(first.approval!.id, 'approved');
+	expect(second).toMatchObject({status: 'pending_approval', approval: {args: {a: 2, b: 2}}});
+
+	const result = await sandbox.resolveApproval(second.approval!.id, 'approved');
+	expect(result).toMatchObject({success: true, result: [2, 4]});
+});
+
+test('waiting for approval does not count towards the timeout', async () => {
+	const sandbox = await createSandbox({tools: [addTool], timeoutMs: 200, requireApproval: () => true});
+
+	const pending = await sandbox.execute.handler({code: 'return tool("add", {a: 1, b: 2});'});
+	await new Promise((resolve) => {
+		setTimeout(resolve, 400);
+	});
+	const result = await sandbox.resolveApproval(pending.approval!.id, 'approved');
+
+	expect(result).toMatchObject({success: true, result: 3});
+});
+
+test('cancelling an execution discards its pending approvals', async () => {
+	const controller = new AbortController();
+	const sandbox = await createSandbox({tools: [addTool], requireApproval: () => true});
+
+	const pending = await sandbox.execute.handler({code: 'return tool("add", {a: 1, b: 2});'}, controller.signal);
+	controller.abort();
+	await new Promise((resolve) => {
+		setTimeout(resolve, 50);
+	});
+
+	await expect(sandbox.resolveApproval(pending.approval!.id, 'approved')).rejects.toThrow('No pending approval');
+});
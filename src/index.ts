@@ -1,4 +1,22 @@
-import {getQuickJS} from 'quickjs-emscripten';
+import {getQuickJS, type QuickJSContext, type QuickJSHandle} from 'quickjs-emscripten';
+import {validateJsonSchema, formatViolations, coerceToSchema} from './schema.js';
+import {encodeValue, decodeValue, MARSHAL_VM_CODE} from './marshal.js';
+import {STORE_PROXY_CODE} from './store.js';
+import {evaluatePolicy, isToolDenied, type PolicyMatch} from './policy.js';
+import {createRateLimiter, createConcurrencyLimiter} from './limits.js';
+import {buildTrace, type ToolCallRecord} from './trace.js';
+import {createResultChannel, type ResultChannel} from './channel.js';
+import {cacheKey, createMemoryCacheBackend} from './cache.js';
+import {generateExecuteDescription} from './description.js';
+import {matchReplayCall, assertReplayComplete} from './cassette.js';
+import {isSideEffecting, simulateToolCall} from './dry-run.js';
+import {generateId, extractBlobs} from './blobs.js';
+import {
+	CODE_FILENAME, WRAPPER_LINE_OFFSET, remapStack, augmentErrorMessage, dumpVmError,
+} from './errors.js';
+import {
+	retryPolicyFor, shouldRetry, retryDelay, waitForRetry, maxAttemptsFor,
+} from './retry.js';
 import type {
 	Tool,
 	SandboxOptions,
@@ -8,6 +26,21 @@ import type {
 	ToolCallSuccessEvent,
 	ToolCallErrorEvent,
 	Blob,
+	LogEntry,
+	LogLevel,
+	ErrorKind,
+	ErrorDetails,
+	ToolOutputMismatchEvent,
+	ExecuteTool,
+	Session,
+	StoreAdapter,
+	ToolCallInstrumentation,
+	PendingApproval,
+	ApprovalDecision,
+	PolicyDecision,
+	PolicyEffect,
+	CassetteCall,
+	SideEffect,
 } from './types.js';
 
 export type {
@@ -19,121 +52,85 @@ export type {
 	ToolCallSuccessEvent,
 	ToolCallErrorEvent,
 	Blob,
+	LogEntry,
+	LogLevel,
+	ErrorKind,
+	ErrorDetails,
+	SchemaViolation,
+	OutputValidationPolicy,
+	ToolOutputMismatchEvent,
+	ExecuteTool,
+	Session,
+	StoreAdapter,
+	ToolCallTrace,
+	ExecutionTrace,
+	Instrumentation,
+	ExecutionInstrumentation,
+	ToolCallInstrumentation,
+	ToolCallContext,
+	PendingApproval,
+	ApprovalDecision,
+	ToolAnnotations,
+	Policy,
+	PolicyRule,
+	PolicyEffect,
+	PolicyDecision,
+	RateLimit,
+	ToolCallLimits,
+	RetryPolicy,
+	CacheBackend,
+	ResultCacheOptions,
+	Cassette,
+	CassetteCall,
+	SideEffect,
 } from './types.js';
 
-export {fromMcpClients, type McpClients} from './mcp.js';
+export {createMemoryStoreAdapter, createJsonFileStoreAdapter} from './store.js';
+export {encodeValue, decodeValue} from './marshal.js';
+export {createMemoryCacheBackend} from './cache.js';
+export {
+	fromMcpClients, bindMcpClients, type McpClients, type McpClientOptions, type McpRequestContext, type McpToolCall, type McpBinding, type McpBindingOptions, type McpListDiagnostics, type McpListStats, type McpListError, type McpListName,
+} from './mcp.js';
 
 // Lazy-loaded QuickJS instance
 let quickJS: Awaited<ReturnType<typeof getQuickJS>> | null = null;
 
-/** Generate a short random ID for blobs (e.g., 'blob_k7m2x9') */
-function generateBlobId(): string {
-	const chars = 'abcdefghijklmnopqrstuvwxyz0123456789';
-	let suffix = '';
-	for (let i = 0; i < 6; i++) {
-		suffix += chars[Math.floor(Math.random() * chars.length)];
-	}
-
-	return `blob_${suffix}`;
-}
-
-/** Extract blobs from a value, replacing them with refs */
-function extractBlobs(
-	value: unknown,
-	blobStore: Map<string, Blob>,
-): unknown {
-	if (typeof value === 'object' && value !== null) {
-		const v = value as Record<string, unknown>;
-
-		// MCP image/audio content: {type: 'image'|'audio', data: string, mimeType: string}
-		if ((v.type === 'image' || v.type === 'audio') && typeof v.data === 'string' && typeof v.mimeType === 'string') {
-			const id = generateBlobId();
-			const blob: Blob = {id, data: v.data, mimeType: v.mimeType};
-			blobStore.set(id, blob);
-			return {type: 'blob_ref', id, mimeType: v.mimeType};
-		}
-
-		// MCP resource blob (PDFs, etc.): {blob: string, mimeType: string}
-		if (typeof v.blob === 'string' && typeof v.mimeType === 'string') {
-			const id = generateBlobId();
-			const blob: Blob = {id, data: v.blob, mimeType: v.mimeType};
-			blobStore.set(id, blob);
-			return {type: 'blob_ref', id, mimeType: v.mimeType};
-		}
-
-		// Recurse into arrays and objects
-		if (Array.isArray(value)) {
-			return value.map((item) => extractBlobs(item, blobStore));
-		}
-
-		const result: Record<string, unknown> = {};
-		for (const [k, val] of Object.entries(v)) {
-			result[k] = extractBlobs(val, blobStore);
-		}
-
-		return result;
-	}
-
-	return value;
-}
-
 /** Default maximum result size in characters before truncation */
 const DEFAULT_maxResultChars = 40000;
 
 /** Default maximum execution time (~50 seconds) */
 const DEFAULT_MAX_POLL_ITERATIONS = 500;
 
-/** Add helpful hints to common error messages */
-function augmentErrorMessage(errorStr: string): string {
-	// setTimeout/setInterval not available - suggest sleep tool
-	if (errorStr.includes('\'setTimeout\' is not defined') || errorStr.includes('\'setInterval\' is not defined')) {
-		return `${errorStr}. Hint: Use await tool('sleep', {ms: N}) for delays.`;
-	}
-
-	return errorStr;
-}
-
-/** Generate the execute tool description */
-function generateExecuteDescription(toolNames: string[]): string {
-	return `Run JavaScript in a sandboxed environment.
-
-Available: tool(name, args), store (persistent), store._prev (last result), atob/btoa, and standard JS built-ins (JSON, Math, Date, Promise, etc.). No logs are captured — use return to pass data back.
-
-Binary data (images, audio, PDFs) from tools is automatically extracted. Tool results containing these will have the data replaced with refs like {type: 'blob_ref', id: 'blob_k7m2x9', mimeType: 'image/png'}. The actual content is returned separately. If you need the raw base64 data (e.g., to crop, resize, or pass to another tool), use tool('get_blob', {id}) which returns {id, data, mimeType}. Note: blobs are only available within the same execution - save to store if needed later.
-
-IMPORTANT: Call tool('describe_tool', {name}) to get a tool's schema before using it. Do not guess schemas.
-
-Available tools: ${toolNames.join(', ')}
+/** Default wall-clock limit for a single execution in milliseconds */
+const DEFAULT_TIMEOUT_MS = 60000;
 
-Example (placeholder tool names - use describe_tool for actual schemas):
+/** Default time an execution waits for resolveApproval before it fails, in milliseconds */
+const DEFAULT_APPROVAL_TIMEOUT_MS = 600000;
 
-USER: What's on my on-call calendars in the next 24 hours?
+/** Default maximum total console output in characters before truncation */
+const DEFAULT_MAX_LOG_CHARS = 20000;
 
-// Execution 1: Get schema first
-return await tool('describe_tool', {name: 'calendar__list'});
+/** Default time a cached tool result is kept for in milliseconds */
+const DEFAULT_CACHE_TTL_MS = 300000;
 
-// Execution 2: Fetch calendars, filter, get events, store and return count
-const calendars = await tool('calendar__list', {});
-const eventArrays = await Promise.all(calendars.map(cal =>
-  tool('calendar__events', {calendarId: cal.id, timeMin: new Date().toISOString(), timeMax: new Date(Date.now() + 86400000).toISOString()})
-));
-store.events = eventArrays.flat();
-return {count: store.events.length};
+/** Console methods exposed to sandbox code */
+const LOG_LEVELS: LogLevel[] = ['log', 'info', 'warn', 'error', 'debug'];
 
-USER: Which of those are standups?
-
-// Execution 3: Work with stored events, return summary
-const standups = store.events.filter(e => e.title.includes('standup'));
-return {count: standups.length, titles: standups.map(e => e.title)};
-
-USER: Any of those for tool-sandbox?
-
-// Execution 4: Filter previous result
-return store._prev.titles.filter(t => t.includes('tool-sandbox'));
+/** Format a dumped console argument the way Node roughly would */
+function formatLogArg(value: unknown): string {
+	if (typeof value === 'string') {
+		return value;
+	}
 
-Style: Keep code short and simple. No comments or error handling needed. Return summaries rather than large objects.
+	if (value === undefined) {
+		return 'undefined';
+	}
 
-Limitations: No fetch/require/import/setTimeout/setInterval (use tools instead).`;
+	try {
+		return JSON.stringify(value) ?? 'undefined';
+	} catch {
+		return '[Unserializable]';
+	}
 }
 
 /** Create a sandbox instance */
@@ -141,8 +138,23 @@ export async function createSandbox(options: SandboxOptions): Promise<Sandbox> {
 	const tools = [...options.tools];
 	const maxResultChars = options.experimental_maxResultChars ?? DEFAULT_maxResultChars;
 	const maxPollIterations = options.experimental_maxPollIterations ?? DEFAULT_MAX_POLL_ITERATIONS;
-	let store: Record<string, unknown> = {};
+	const maxLogChars = options.experimental_maxLogChars ?? DEFAULT_MAX_LOG_CHARS;
+	const timeoutMs = options.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+	const approvalTimeoutMs = options.approvalTimeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS;
+	let store: Record<string, unknown> = (await options.storeAdapter?.load()) ?? {};
 	let prevResult: unknown;
+	let replayIndex = 0; // Position in options.replay, which continues across executions
+	const rateLimiter = options.limits?.rateLimits ? createRateLimiter(options.limits.rateLimits) : undefined;
+	const resultCache = options.cache && {
+		backend: options.cache.backend ?? createMemoryCacheBackend(),
+		ttlMs: options.cache.ttlMs ?? DEFAULT_CACHE_TTL_MS,
+		cacheable: options.cache.cacheable ?? ((tool: Tool) => tool.annotations?.readOnlyHint === true),
+	};
+	// Tool calls paused until sandbox.resolveApproval, keyed by approval id
+	const pendingApprovals = new Map<string, {decide: (decision: ApprovalDecision) => void; cancel: () => void; channel: ResultChannel}>();
+	// Serialized size of each store key, computed on demand for maxStoreBytes
+	const storeSizes = new Map<string, number>();
+	let storeReplaced = false; // Whether sandbox.store was reassigned since the store was last saved
 	const blobStore = new Map<string, Blob>();
 
 	// Validate no duplicate tool names
@@ -155,6 +167,11 @@ export async function createSandbox(options: SandboxOptions): Promise<Sandbox> {
 		names.add(tool.name);
 	}
 
+	// Whether sandbox code can see a tool: built-ins always, others unless the policy denies every call to them
+	function isVisible(tool: Tool): boolean {
+		return !options.policy || builtinTools.has(tool) || !isToolDenied(options.policy, tool);
+	}
+
 	// Add built-in describe tool
 	const describeTool: Tool = {
 		name: 'describe_tool',
@@ -167,7 +184,7 @@ export async function createSandbox(options: SandboxOptions): Promise<Sandbox> {
 		async handler(args) {
 			const {name} = args as {name: string};
 			const tool = tools.find((t) => t.name === name);
-			if (!tool) {
+			if (!tool || !isVisible(tool)) {
 				return {error: `Tool not found: ${name}`};
 			}
 
@@ -187,7 +204,7 @@ export async function createSandbox(options: SandboxOptions): Promise<Sandbox> {
 		description: 'List all available tools. Returns an array of {name, description} objects.',
 		inputSchema: {type: 'object', properties: {}},
 		async handler() {
-			return tools.map((t) => ({name: t.name, description: t.description}));
+			return tools.filter(isVisible).map((t) => ({name: t.name, description: t.description}));
 		},
 	};
 	tools.push(listToolsTool);
@@ -197,10 +214,19 @@ export async function createSandbox(options: SandboxOptions): Promise<Sandbox> {
 		name: 'sleep',
 		description: 'Wait for the specified number of milliseconds',
 		inputSchema: {type: 'object', properties: {ms: {type: 'number'}}, required: ['ms']},
-		async handler(args) {
+		async handler(args, signal) {
 			const {ms} = args as {ms: number};
-			await new Promise((resolve) => {
-				setTimeout(resolve, ms);
+			await new Promise<void>((resolve, reject) => {
+				const onAbort = () => {
+					clearTimeout(timer);
+					reject(new Error('Sleep aborted'));
+				};
+
+				const timer = setTimeout(() => {
+					signal?.removeEventListener('abort', onAbort);
+					resolve();
+				}, ms);
+				signal?.addEventListener('abort', onAbort, {once: true});
 			});
 			return {slept: ms};
 		},
@@ -223,26 +249,298 @@ export async function createSandbox(options: SandboxOptions): Promise<Sandbox> {
 		},
 	};
 	tools.push(getBlobTool);
+	const builtinTools = new Set([describeTool, listToolsTool, sleepTool, getBlobTool]);
 
-	// Execute code in the sandbox
-	async function executeCode(code: string): Promise<ExecuteResult> {
-		quickJS ||= await getQuickJS();
+	// Check a handler result against the tool's outputSchema, applying the configured policy
+	function checkToolOutput(tool: Tool, args: unknown, result: unknown): {result: unknown} | {error: string} {
+		const policy = options.validateToolOutput;
+		if (!policy || !tool.outputSchema) {
+			return {result};
+		}
+
+		const violations = validateJsonSchema(result, tool.outputSchema, 'result');
+		if (violations.length === 0) {
+			return {result};
+		}
+
+		const event: ToolOutputMismatchEvent = {
+			toolName: tool.name, args, result, violations, policy,
+		};
+		if (policy === 'coerce') {
+			event.coercedResult = coerceToSchema(result, tool.outputSchema);
+			event.remainingViolations = validateJsonSchema(event.coercedResult, tool.outputSchema, 'result');
+		}
+
+		options.onToolOutputMismatch?.(event);
+
+		if (policy === 'throw') {
+			return {error: formatViolations(`Result of tool ${tool.name} does not match its outputSchema`, violations)};
+		}
+
+		return {result: policy === 'coerce' ? event.coercedResult : result};
+	}
+
+	// Read a cached tool result. Backend failures count as misses.
+	async function readCachedResult(key: string): Promise<{result: unknown} | undefined> {
+		try {
+			const cached = await resultCache?.backend.get(key);
+			return cached === undefined ? undefined : {result: decodeValue(cached)};
+		} catch (e) {
+			console.warn('[tool-sandbox] Cache read failed:', e);
+			return undefined;
+		}
+	}
+
+	// Cache a tool result. Failures are ignored, as the call itself succeeded.
+	async function writeCachedResult(key: string, result: unknown): Promise<void> {
+		try {
+			await resultCache?.backend.set(key, encodeValue(result), resultCache.ttlMs);
+		} catch (e) {
+			console.warn('[tool-sandbox] Cache write failed:', e);
+		}
+	}
+
+	// Write the store to the adapter, per changed key when the adapter supports it
+	async function persistStore(adapter: StoreAdapter, next: Record<string, unknown>, changedKeys: string[]): Promise<void> {
+		if (!adapter.set || storeReplaced) {
+			await adapter.save(next);
+			storeReplaced = false;
+			return;
+		}
+
+		for (const key of changedKeys) {
+			// eslint-disable-next-line no-await-in-loop -- Keep writes ordered for simple backends
+			await adapter.set(key, next[key]);
+		}
+	}
 
+	// Bytes a store entry takes up, counting its key and its JSON value
+	function entrySize(key: string, json: string | undefined): number {
+		return json === undefined ? 0 : Buffer.byteLength(key) + Buffer.byteLength(json);
+	}
+
+	// Size of an entry in the host store, cached until the entry changes
+	function storedEntrySize(key: string): number {
+		let size = storeSizes.get(key);
+		if (size === undefined) {
+			size = Object.hasOwn(store, key) ? entrySize(key, encodeValue(store[key])) : 0;
+			storeSizes.set(key, size);
+		}
+
+		return size;
+	}
+
+	// Create a QuickJS context with the configured resource limits
+	async function newVm(): Promise<QuickJSContext> {
+		quickJS ||= await getQuickJS();
 		const vm = quickJS.newContext();
+
+		if (options.memoryLimitBytes !== undefined) {
+			vm.runtime.setMemoryLimit(options.memoryLimitBytes);
+		}
+
+		if (options.maxStackSizeBytes !== undefined) {
+			vm.runtime.setMaxStackSize(options.maxStackSizeBytes);
+		}
+
+		return vm;
+	}
+
+	// Execute code in the sandbox, in a fresh VM or in a session's long-lived one
+	async function executeCode(code: string, signal: AbortSignal | undefined, session: {vm: QuickJSContext | null} | undefined, channel: ResultChannel, dryRun = false): Promise<ExecuteResult> {
+		if (signal?.aborted) {
+			return {
+				success: false,
+				error: 'Execution cancelled',
+				errorDetails: {kind: 'cancelled', name: 'AbortError', message: 'Execution cancelled'},
+				blobs: [],
+				cancelled: true,
+			};
+		}
+
+		const vm = session ? (session.vm ??= await newVm()) : await newVm();
 		const pendingPromises: Promise<void>[] = [];
-		let vmDisposed = false; // Track if VM has been disposed to prevent operations on disposed VM
+		let runFinished = false; // Track if this run is over (VM disposed or handed back to its session) to prevent late operations
 		let mainPromiseFulfilled = false; // Track when main promise is done - interrupt further execution
+		let finishingUp = false; // Let marshalling the result and flushing the store run after the main promise is done
 		// Track pending QuickJS promises so we can force-resolve them before VM disposal
 		// This is needed for Promise.race scenarios where abandoned promises would otherwise leak
 		const pendingQjsPromises: {promise: ReturnType<typeof vm.newPromise>; settled: boolean}[] = [];
+		let marshalHandle: QuickJSHandle | undefined;
 		// Mutable ref to main promise handle - used by resolve callbacks to check if main promise is done
 		const mainPromiseRef: {handle: ReturnType<typeof vm.newPromise>['handle'] | null} = {handle: null};
 		// Track in-flight tool calls for better timeout error messages
 		const inFlightToolCalls = new Set<string>();
 
+		// Timing for the execution trace
+		const executionId = generateId('exec');
+		const startedAt = Date.now();
+		const toolCallRecords: ToolCallRecord[] = [];
+		const policyDecisions: PolicyDecision[] = [];
+		const sideEffects: SideEffect[] = [];
+		const cassetteCalls: CassetteCall[] | undefined = options.record ? [] : undefined;
+		let replayDivergence: string | undefined; // First mismatch with options.replay, which fails the execution
+		// Tool call counts and slots for options.limits
+		let callCount = 0;
+		const callCountsByTool = new Map<string, number>();
+		const concurrency = options.limits?.maxConcurrency === undefined ? undefined : createConcurrencyLimiter(options.limits.maxConcurrency);
+		const instrumentation = options.instrumentation?.startExecution({executionId, code});
+		const toolCallInstrumentations = new Map<ToolCallRecord, ToolCallInstrumentation>();
+		let vmTimeMs = 0;
+		let vmRunStartedAt = Date.now();
+		// Run a synchronous VM operation, counting its time as VM time
+		const inVm = <T>(fn: () => T): T => {
+			const start = performance.now();
+			vmRunStartedAt = Date.now();
+			try {
+				return fn();
+			} finally {
+				vmTimeMs += performance.now() - start;
+			}
+		};
+
+		// Wall-clock deadline, enforced both by the interrupt handler and the poll loop
+		let deadline = Date.now() + timeoutMs;
+		let timedOut = false;
+		// Approvals this execution is waiting on; the deadline is paused while there are any
+		const ownApprovals = new Set<string>();
+		let pausedSince: number | undefined;
+
 		// Set up interrupt handler to stop execution after main promise fulfills
 		// This prevents abandoned Promise.race callbacks from running
-		vm.runtime.setInterruptHandler(() => mainPromiseFulfilled);
+		// It also kills CPU-bound code (e.g. while(true){}) once the deadline passes
+		// Cancellation via the AbortSignal interrupts the same way
+		vm.runtime.setInterruptHandler(() => {
+			if ((mainPromiseFulfilled && !finishingUp) || signal?.aborted) {
+				return true;
+			}
+
+			// Time spent waiting for approval before this VM run started doesn't count
+			const pausedMs = pausedSince === undefined ? 0 : Math.max(0, vmRunStartedAt - pausedSince);
+			if (Date.now() > deadline + pausedMs) {
+				timedOut = true;
+				return true;
+			}
+
+			return false;
+		});
+
+		// Reject outstanding tool() promises so nothing resolves into the VM later
+		const rejectPendingToolCalls = (message: string) => {
+			for (const entry of pendingQjsPromises) {
+				if (!entry.settled) {
+					const errHandle = vm.newError(message);
+					entry.promise.reject(errHandle);
+					errHandle.dispose();
+					entry.settled = true;
+				}
+			}
+		};
+
+		// Build the timeout message, naming any tool calls we were still waiting on
+		const timeoutError = () => {
+			const inFlight = Array.from(inFlightToolCalls);
+			return inFlight.length > 0
+				? `Execution timed out after ${timeoutMs}ms while waiting for tool call(s): ${inFlight.join(', ')}`
+				: `Execution timed out after ${timeoutMs}ms`;
+		};
+
+		// Create an error for a failed tool() call, tagged so it can be attributed later.
+		// Any content and structuredContent in data (e.g. from an MCP error result) are copied onto it.
+		const newToolError = (message: string, toolName: string, name?: string, data?: QuickJSHandle) => {
+			const errHandle = vm.newError({name: name ?? 'Error', message});
+			const toolNameHandle = vm.newString(toolName);
+			vm.setProp(errHandle, 'toolName', toolNameHandle);
+			toolNameHandle.dispose();
+			if (data) {
+				for (const key of ['content', 'structuredContent']) {
+					const valueHandle = vm.getProp(data, key);
+					if (vm.typeof(valueHandle) !== 'undefined') {
+						vm.setProp(errHandle, key, valueHandle);
+					}
+
+					valueHandle.dispose();
+				}
+			}
+
+			return errHandle;
+		};
+
+		// Convert a dumped QuickJS error into structured details, recognising resource limit errors
+		const codeLineCount = code.split('\n').length;
+		const describeVmError = (error: unknown, defaultKind: ErrorKind): ErrorDetails => {
+			if (typeof error !== 'object' || error === null) {
+				return {kind: defaultKind, name: 'Error', message: augmentErrorMessage(String(error))};
+			}
+
+			const e = error as {
+				name?: string; message?: string; stack?: string; lineNumber?: number; toolName?: string; cause?: unknown;
+			};
+
+			if (timedOut && e.message === 'interrupted') {
+				return {kind: 'timeout', name: 'TimeoutError', message: timeoutError()};
+			}
+
+			if (e.name === 'InternalError' && e.message === 'out of memory') {
+				const message = options.memoryLimitBytes === undefined
+					? 'Memory limit exceeded'
+					: `Memory limit exceeded (${options.memoryLimitBytes} bytes)`;
+				return {kind: 'limit', name: 'InternalError', message};
+			}
+
+			if (e.name === 'StoreQuotaError') {
+				return {kind: 'limit', name: 'StoreQuotaError', message: e.message ?? 'Store quota exceeded'};
+			}
+
+			if (e.name === 'InternalError' && e.message === 'stack overflow') {
+				const message = options.maxStackSizeBytes === undefined
+					? 'Maximum stack size exceeded'
+					: `Maximum stack size exceeded (${options.maxStackSizeBytes} bytes)`;
+				return {kind: 'limit', name: 'InternalError', message};
+			}
+
+			const details: ErrorDetails = {
+				kind: typeof e.toolName === 'string' ? 'tool' : defaultKind,
+				name: e.name ?? 'Error',
+				message: augmentErrorMessage(e.message || JSON.stringify(error)),
+			};
+
+			if (typeof e.stack === 'string') {
+				const {stack, line} = remapStack(e.stack, codeLineCount);
+				if (stack) {
+					details.stack = stack;
+				}
+
+				if (line !== undefined) {
+					details.line = line;
+				}
+			}
+
+			if (typeof e.lineNumber === 'number') {
+				// Unterminated code is reported on the wrapper's closing line, so clamp to the last line
+				details.line = Math.max(1, Math.min(e.lineNumber - WRAPPER_LINE_OFFSET, codeLineCount));
+			}
+
+			if (typeof e.toolName === 'string') {
+				details.toolName = e.toolName;
+			}
+
+			// Calls over a ToolCallLimits cap fail like a tool, but are limits
+			if (e.name === 'ToolLimitError') {
+				details.kind = 'limit';
+			}
+
+			if ('cause' in e) {
+				details.cause = e.cause;
+			}
+
+			return details;
+		};
+
+		// Build a failed result from error details
+		const failure = (errorDetails: ErrorDetails, extra?: Partial<ExecuteResult>): ExecuteResult => buildResult({
+			success: false, error: errorDetails.message, errorDetails, ...extra,
+		});
 
 		// Helper to check main promise state and set flag if it's done
 		// Called after each executePendingJobs to detect when Promise.race resolves
@@ -260,6 +558,104 @@ export async function createSandbox(options: SandboxOptions): Promise<Sandbox> {
 		// Clear blob store for this execution
 		blobStore.clear();
 
+		// Console output captured during this execution
+		const logs: LogEntry[] = [];
+		let logChars = 0;
+		let logsTruncated = false;
+
+		// Attach blobs and logs collected so far to a result
+		const buildResult = (partial: Omit<ExecuteResult, 'blobs' | 'logs'>): ExecuteResult => {
+			const output: ExecuteResult = {...partial, blobs: Array.from(blobStore.values())};
+			if (logsTruncated) {
+				logs.push({level: 'warn', timestamp: Date.now(), message: `Logs truncated (${logChars} > ${maxLogChars} chars)`});
+			}
+
+			if (logs.length > 0) {
+				output.logs = logs;
+			}
+
+			if (policyDecisions.length > 0) {
+				output.policyDecisions = policyDecisions;
+			}
+
+			if (cassetteCalls) {
+				output.cassette = {version: 1, calls: cassetteCalls};
+			}
+
+			if (dryRun) {
+				output.sideEffects = sideEffects;
+			}
+
+			// Sandbox code may have caught the divergence error, so fail the execution here
+			if (replayDivergence !== undefined) {
+				output.success = false;
+				output.error = replayDivergence;
+				output.errorDetails = {kind: 'replay', name: 'ReplayDivergenceError', message: replayDivergence};
+			}
+
+			if (options.trace) {
+				output.trace = buildTrace(executionId, startedAt, vmTimeMs, toolCallRecords);
+			}
+
+			if (instrumentation) {
+				for (const [record, callInstrumentation] of toolCallInstrumentations) {
+					if (!record.outcome) {
+						callInstrumentation.end({outcome: 'unfinished'});
+					}
+				}
+
+				instrumentation.end(output);
+			}
+
+			return output;
+		};
+
+		// Set by sandbox.cancelApproval, ending the execution
+		let cancelledApprovalId: string | undefined;
+
+		// Pause a tool() call until the host decides on it, handing a pending result to whoever is waiting
+		const requestApproval = async (approval: Omit<PendingApproval, 'id'>): Promise<ApprovalDecision> => {
+			const id = generateId('approval');
+			ownApprovals.add(id);
+			pausedSince ??= Date.now();
+
+			const decision = await new Promise<ApprovalDecision>((resolve) => {
+				pendingApprovals.set(id, {
+					decide: resolve,
+					cancel() {
+						cancelledApprovalId = id;
+					},
+					channel,
+				});
+				const pending: ExecuteResult = {
+					success: false,
+					status: 'pending_approval',
+					approval: {id, ...approval},
+					blobs: Array.from(blobStore.values()),
+				};
+				if (logs.length > 0) {
+					pending.logs = [...logs];
+				}
+
+				channel.push({result: pending});
+			});
+
+			ownApprovals.delete(id);
+			if (ownApprovals.size === 0 && pausedSince !== undefined) {
+				deadline += Date.now() - pausedSince;
+				pausedSince = undefined;
+			}
+
+			return decision;
+		};
+
+		// Wakes the poll loop as soon as the execution is cancelled. The listener is removed when the execution ends.
+		let onAbort: () => void = () => undefined;
+		const aborted = new Promise<void>((resolve) => {
+			onAbort = resolve;
+		});
+		signal?.addEventListener('abort', onAbort, {once: true});
+
 		try {
 			// Add atob/btoa for base64 encoding/decoding
 			const atobFn = vm.newFunction('atob', (strHandle) => {
@@ -276,20 +672,139 @@ export async function createSandbox(options: SandboxOptions): Promise<Sandbox> {
 			vm.setProp(vm.global, 'btoa', btoaFn);
 			btoaFn.dispose();
 
-			// Initialize store with _prev as read-only
-			const prevJson = JSON.stringify(prevResult ?? null);
-			const storeJson = JSON.stringify(store);
-			const storeInitCode = `
-        globalThis.store = ${storeJson};
-        Object.defineProperty(globalThis.store, '_prev', {
-          value: ${prevJson},
-          writable: false,
-          configurable: false,
-          enumerable: true
-        });
-        globalThis.store;
-      `;
-			const storeResult = vm.evalCode(storeInitCode);
+			// Add console, capturing output into logs
+			const captureLog = (level: LogLevel, message: string) => {
+				logChars += message.length;
+				if (logChars > maxLogChars) {
+					// Keep whatever still fits, then drop further output
+					const remaining = maxLogChars - (logChars - message.length);
+					if (!logsTruncated && remaining > 0) {
+						logs.push({level, timestamp: Date.now(), message: message.slice(0, remaining)});
+					}
+
+					logsTruncated = true;
+					return;
+				}
+
+				logs.push({level, timestamp: Date.now(), message});
+			};
+
+			const consoleHandle = vm.newObject();
+			for (const level of LOG_LEVELS) {
+				const logFn = vm.newFunction(level, (...argHandles) => {
+					captureLog(level, argHandles.map((h) => formatLogArg(vm.dump(h))).join(' '));
+				});
+				vm.setProp(consoleHandle, level, logFn);
+				logFn.dispose();
+			}
+
+			vm.setProp(vm.global, 'console', consoleHandle);
+			consoleHandle.dispose();
+
+			// Codec for passing values across the host/VM boundary (see marshal.ts)
+			const marshalResult = vm.evalCode(MARSHAL_VM_CODE);
+			if (marshalResult.error) {
+				marshalResult.error.dispose();
+				throw new Error('Failed to initialize marshalling');
+			}
+
+			marshalHandle = marshalResult.value;
+			const marshal = marshalHandle;
+
+			// Encode a VM value for the host, or undefined if it can't be (e.g. circular structures)
+			const encodeInVm = (handle: QuickJSHandle): string | undefined => {
+				const encodeHandle = vm.getProp(marshal, 'encode');
+				const encoded = vm.callFunction(encodeHandle, vm.undefined, handle);
+				encodeHandle.dispose();
+				if (encoded.error) {
+					encoded.error.dispose();
+					return undefined;
+				}
+
+				const text = vm.getString(encoded.value);
+				encoded.value.dispose();
+				return text;
+			};
+
+			// Create a VM value from text produced by encodeValue
+			const newValue = (text: string): QuickJSHandle => {
+				const decodeHandle = vm.getProp(marshal, 'decode');
+				const textHandle = vm.newString(text);
+				const decoded = vm.callFunction(decodeHandle, vm.undefined, textHandle);
+				decodeHandle.dispose();
+				textHandle.dispose();
+				return vm.unwrapResult(decoded);
+			};
+
+			// Store writes made during this execution, encoded (undefined = deleted), applied only if it succeeds
+			const storeWrites = new Map<string, string | undefined>();
+			let storeBytes: number | undefined; // Projected store size, computed on the first write when there's a quota
+
+			const storeHost = vm.newObject();
+			const storeHostFunctions = {
+				get: vm.newFunction('get', (keyHandle) => {
+					const key = vm.getString(keyHandle);
+					const json = storeWrites.has(key)
+						? storeWrites.get(key)
+						: Object.hasOwn(store, key) ? encodeValue(store[key]) : undefined;
+					return json === undefined ? vm.undefined : vm.newString(json);
+				}),
+				has: vm.newFunction('has', (keyHandle) => {
+					const key = vm.getString(keyHandle);
+					const present = storeWrites.has(key) ? storeWrites.get(key) !== undefined : Object.hasOwn(store, key);
+					return present ? vm.true : vm.false;
+				}),
+				keys: vm.newFunction('keys', () => {
+					const keys = new Set(Object.keys(store));
+					for (const [key, json] of storeWrites) {
+						if (json === undefined) {
+							keys.delete(key);
+						} else {
+							keys.add(key);
+						}
+					}
+
+					return vm.newString(JSON.stringify([...keys]));
+				}),
+				set: vm.newFunction('set', (keyHandle, jsonHandle) => {
+					const key = vm.getString(keyHandle);
+					const json = vm.dump(jsonHandle) as string | undefined;
+
+					if (options.maxStoreBytes !== undefined) {
+						storeBytes ??= Object.keys(store).reduce((total, k) => total + storedEntrySize(k), 0);
+						const previousSize = storeWrites.has(key) ? entrySize(key, storeWrites.get(key)) : storedEntrySize(key);
+						const nextBytes = storeBytes - previousSize + entrySize(key, json);
+						if (nextBytes > options.maxStoreBytes && nextBytes > storeBytes) {
+							const errHandle = vm.newError({
+								name: 'StoreQuotaError',
+								message: `Store quota exceeded: writing store.${key} would grow the store to ${nextBytes} bytes (max ${options.maxStoreBytes})`,
+							});
+							return {error: errHandle};
+						}
+
+						storeBytes = nextBytes;
+					}
+
+					storeWrites.set(key, json);
+					return vm.undefined;
+				}),
+				prev: vm.newFunction('prev', () => vm.newString(encodeValue(prevResult ?? null))),
+			};
+			for (const [name, fn] of Object.entries(storeHostFunctions)) {
+				vm.setProp(storeHost, name, fn);
+				fn.dispose();
+			}
+
+			const storeFactoryResult = vm.evalCode(STORE_PROXY_CODE);
+			if (storeFactoryResult.error) {
+				storeFactoryResult.error.dispose();
+				storeHost.dispose();
+				throw new Error('Failed to initialize store');
+			}
+
+			const storeResult = vm.callFunction(storeFactoryResult.value, vm.undefined, storeHost, marshal);
+			storeFactoryResult.value.dispose();
+			storeHost.dispose();
 			if (storeResult.error) {
 				storeResult.error.dispose();
 				throw new Error('Failed to initialize store');
@@ -297,13 +812,73 @@ export async function createSandbox(options: SandboxOptions): Promise<Sandbox> {
 
 			const storeHandle = storeResult.value;
 
+			// Write back in-place mutations of store values, then apply this execution's writes to the host store
+			const commitStore = (): {error: unknown} | {changedKeys: string[]} => {
+				const flushHandle = vm.getProp(storeHandle, 'flush');
+				finishingUp = true;
+				const flushResult = inVm(() => vm.callFunction(flushHandle, storeHandle));
+				finishingUp = false;
+				flushHandle.dispose();
+				if (flushResult.error) {
+					const error = dumpVmError(vm, flushResult.error);
+					flushResult.error.dispose();
+					return {error};
+				}
+
+				flushResult.value.dispose();
+				if (storeWrites.size === 0) {
+					return {changedKeys: []};
+				}
+
+				const next = {...store};
+				for (const [key, json] of storeWrites) {
+					if (json === undefined) {
+						Reflect.deleteProperty(next, key);
+					} else {
+						next[key] = decodeValue(json);
+					}
+
+					storeSizes.set(key, entrySize(key, json));
+				}
+
+				store = next;
+				return {changedKeys: [...storeWrites.keys()]};
+			};
+
+			// Commit store changes and persist them with the adapter, returning a failed result if either fails
+			const saveStore = async (value: unknown): Promise<ExecuteResult | undefined> => {
+				const committed = commitStore();
+				if ('error' in committed) {
+					return failure(describeVmError(committed.error, 'runtime'));
+				}
+
+				prevResult = value;
+
+				if (options.storeAdapter) {
+					try {
+						await persistStore(options.storeAdapter, store, committed.changedKeys);
+					} catch (e) {
+						const message = `Failed to save store: ${e instanceof Error ? e.message : String(e)}`;
+						return buildResult({
+							success: false,
+							result: value,
+							error: message,
+							errorDetails: {kind: 'store', name: 'StoreError', message},
+						});
+					}
+				}
+
+				return undefined;
+			};
+
 			// Queue for serializing promise resolutions
 			let resolveQueue: Promise<void> = Promise.resolve();
 
 			// Add tool() function
 			const toolFn = vm.newFunction('tool', (toolNameHandle, argsHandle) => {
 				const toolName = vm.getString(toolNameHandle);
-				const argsValue = vm.dump(argsHandle);
+				const argsText = encodeInVm(argsHandle);
+				const argsValue = argsText === undefined ? vm.dump(argsHandle) : decodeValue(argsText);
 				const args = typeof argsValue === 'string'
 					? JSON.parse(argsValue) as Record<string, unknown>
 					: (argsValue as Record<string, unknown>) ?? {};
@@ -312,45 +887,157 @@ export async function createSandbox(options: SandboxOptions): Promise<Sandbox> {
 				const promiseEntry = {promise, settled: false};
 				pendingQjsPromises.push(promiseEntry);
 
+				const callRecord: ToolCallRecord = {
+					callId: generateId('call'), toolName, args, startedAt: Date.now(),
+				};
+				toolCallRecords.push(callRecord);
+				const callInstrumentation = instrumentation?.startToolCall({
+					callId: callRecord.callId,
+					toolName,
+					tool: tools.find((t) => t.name === toolName),
+					args,
+					argsSize: argsText?.length ?? 0,
+				});
+				if (callInstrumentation) {
+					toolCallInstrumentations.set(callRecord, callInstrumentation);
+				}
+
+				const cassetteCall: CassetteCall | undefined = cassetteCalls ? {toolName, args} : undefined;
+				if (cassetteCall) {
+					cassetteCalls?.push(cassetteCall);
+				}
+
+				// Queue a rejection of this tool() call's promise inside the VM
+				const rejectInVm = (message: string, name?: string, error?: Error & {content?: unknown; structuredContent?: unknown}) => {
+					// Blobs in the error's content reach the sandbox as refs, like in results
+					let dataText: string | undefined;
+					if (error?.content !== undefined || error?.structuredContent !== undefined) {
+						try {
+							dataText = encodeValue(extractBlobs({content: error.content, structuredContent: error.structuredContent}, blobStore));
+						} catch {
+							// Leave it out: the message already has the text
+						}
+					}
+
+					callRecord.endedAt = Date.now();
+					callRecord.outcome = 'error';
+					callRecord.error = message;
+					if (cassetteCall) {
+						cassetteCall.error = message;
+						if (name) {
+							cassetteCall.errorName = name;
+						}
+					}
+
+					callInstrumentation?.end({outcome: 'error', error: message});
+
+					resolveQueue = resolveQueue.then(() => {
+						if (runFinished || mainPromiseFulfilled) {
+							return;
+						} // Skip if main promise done or run finished
+
+						const dataHandle = dataText === undefined ? undefined : newValue(dataText);
+						const errHandle = newToolError(message, toolName, name, dataHandle);
+						dataHandle?.dispose();
+						promise.reject(errHandle);
+						errHandle.dispose();
+						promiseEntry.settled = true;
+						inVm(() => vm.runtime.executePendingJobs());
+						checkMainPromiseDone();
+					});
+				};
+
+				// Queue resolution of this tool() call's promise inside the VM
+				const resolveInVm = (value: unknown) => {
+					// Extract blobs from result before passing to VM
+					const transformedResult = extractBlobs(value, blobStore);
+					let encoded: string;
+					try {
+						encoded = encodeValue(transformedResult);
+					} catch (e) {
+						rejectInVm(`Tool ${toolName} returned a value that cannot be passed to the sandbox: ${e instanceof Error ? e.message : String(e)}`);
+						return;
+					}
+
+					callRecord.endedAt = Date.now();
+					callRecord.outcome = 'success';
+					if (cassetteCall) {
+						cassetteCall.result = value;
+					}
+
+					callRecord.resultSize = encoded.length;
+					callInstrumentation?.end({outcome: 'success', resultSize: encoded.length});
+
+					resolveQueue = resolveQueue.then(() => {
+						if (runFinished || mainPromiseFulfilled) {
+							return;
+						} // Skip if main promise done or run finished
+
+						const resultHandle = newValue(encoded);
+						promise.resolve(resultHandle);
+						resultHandle.dispose();
+
+						promiseEntry.settled = true;
+						inVm(() => vm.runtime.executePendingJobs());
+						checkMainPromiseDone();
+					});
+				};
+
 				const asyncWork = (async () => {
+					// Serve the call from the replayed cassette instead of running it
+					if (options.replay) {
+						const replayed = matchReplayCall(options.replay, replayIndex, toolName, args);
+						replayIndex += 1;
+						if ('divergence' in replayed) {
+							replayDivergence ??= replayed.divergence;
+							rejectInVm(replayed.divergence, 'ReplayDivergenceError');
+						} else if (replayed.call.error !== undefined) {
+							rejectInVm(replayed.call.error, replayed.call.errorName);
+						} else if ('result' in replayed.call) {
+							resolveInVm(replayed.call.result);
+						}
+
+						// A call recorded as unfinished never settles
+						return;
+					}
+
 					inFlightToolCalls.add(toolName);
 					const tool = tools.find((t) => t.name === toolName);
 
 					if (!tool) {
 						inFlightToolCalls.delete(toolName);
-						resolveQueue = resolveQueue.then(() => {
-							if (vmDisposed || mainPromiseFulfilled) {
-								return;
-							} // Skip if main promise done or VM disposed
-
-							const errHandle = vm.newError(`Tool not found: ${toolName}`);
-							promise.reject(errHandle);
-							errHandle.dispose();
-							promiseEntry.settled = true;
-							vm.runtime.executePendingJobs();
-							checkMainPromiseDone();
-						});
+						rejectInVm(`Tool not found: ${toolName}`);
 						return;
 					}
 
+					// Enforce per-execution call quotas
+					const limits = options.limits ?? {};
+					callCount += 1;
+					const toolCallCount = (callCountsByTool.get(toolName) ?? 0) + 1;
+					callCountsByTool.set(toolName, toolCallCount);
+					if (limits.maxCalls !== undefined && callCount > limits.maxCalls) {
+						inFlightToolCalls.delete(toolName);
+						rejectInVm(`Tool call limit exceeded: at most ${limits.maxCalls} tool calls per execution`, 'ToolLimitError');
+						return;
+					}
+
+					if (limits.maxCallsPerTool !== undefined && toolCallCount > limits.maxCallsPerTool) {
+						inFlightToolCalls.delete(toolName);
+						rejectInVm(`Tool call limit exceeded: at most ${limits.maxCallsPerTool} calls to ${toolName} per execution`, 'ToolLimitError');
+						return;
+					}
+
+					const callContext = {
+						callId: callRecord.callId, executionId, tool, code,
+					};
+
 					// Before tool call event
-					const beforeEvent: BeforeToolCallEvent = {toolName, args};
+					const beforeEvent: BeforeToolCallEvent = {...callContext, toolName, args};
 					try {
-						options.onBeforeToolCall?.(beforeEvent);
+						await options.onBeforeToolCall?.(beforeEvent);
 					} catch (err) {
 						inFlightToolCalls.delete(toolName);
-						resolveQueue = resolveQueue.then(() => {
-							if (vmDisposed || mainPromiseFulfilled) {
-								return;
-							} // Skip if main promise done or VM disposed
-
-							const errHandle = vm.newError(err instanceof Error ? err.message : String(err));
-							promise.reject(errHandle);
-							errHandle.dispose();
-							promiseEntry.settled = true;
-							vm.runtime.executePendingJobs();
-							checkMainPromiseDone();
-						});
+						rejectInVm(err instanceof Error ? err.message : String(err));
 						return;
 					}
 
@@ -358,121 +1045,214 @@ export async function createSandbox(options: SandboxOptions): Promise<Sandbox> {
 					if ('returnValue' in beforeEvent) {
 						inFlightToolCalls.delete(toolName);
 						const successEvent: ToolCallSuccessEvent = {
+							...callContext,
 							toolName,
 							args,
 							result: beforeEvent.returnValue,
 						};
-						options.onToolCallSuccess?.(successEvent);
+						try {
+							await options.onToolCallSuccess?.(successEvent);
+						} catch (err) {
+							rejectInVm(err instanceof Error ? err.message : String(err));
+							return;
+						}
 
-						// Extract blobs from result before passing to VM
-						const transformedResult = extractBlobs(successEvent.result, blobStore);
+						resolveInVm(successEvent.result);
+						return;
+					}
 
-						resolveQueue = resolveQueue.then(() => {
-							if (vmDisposed || mainPromiseFulfilled) {
-								return;
-							} // Skip if main promise done or VM disposed
-
-							const jsonStr = JSON.stringify(transformedResult);
-							const resultHandle = vm.evalCode(`(${jsonStr})`);
-							if (resultHandle.error) {
-								const str = vm.newString(jsonStr);
-								promise.resolve(str);
-								str.dispose();
-								resultHandle.error.dispose();
-							} else {
-								promise.resolve(resultHandle.value);
-								resultHandle.value.dispose();
-							}
+					// Apply the policy to the (possibly modified) args; built-in tools are exempt
+					let effect: PolicyEffect = 'allow';
+					if (options.policy && !builtinTools.has(tool)) {
+						let match: PolicyMatch;
+						try {
+							match = evaluatePolicy(options.policy, tool, beforeEvent.args);
+						} catch (err) {
+							inFlightToolCalls.delete(toolName);
+							rejectInVm(err instanceof Error ? err.message : String(err));
+							return;
+						}
 
-							promiseEntry.settled = true;
-							vm.runtime.executePendingJobs();
-							checkMainPromiseDone();
+						policyDecisions.push({
+							callId: callRecord.callId, toolName, args: beforeEvent.args, ...match,
 						});
+						effect = match.effect;
+						if (effect === 'deny') {
+							inFlightToolCalls.delete(toolName);
+							rejectInVm(`Tool call ${toolName} was denied by policy${match.reason ? `: ${match.reason}` : ''}`);
+							return;
+						}
+					}
+
+					// In a dry run, simulate side-effecting tools instead of calling them
+					if (dryRun && !builtinTools.has(tool) && isSideEffecting(tool)) {
+						try {
+							const result = await simulateToolCall(tool, beforeEvent.args);
+							sideEffects.push({
+								callId: callRecord.callId, toolName, args: beforeEvent.args, result,
+							});
+							resolveInVm(result);
+						} catch (err) {
+							rejectInVm(err instanceof Error ? err.message : String(err));
+						}
+
+						inFlightToolCalls.delete(toolName);
 						return;
 					}
 
-					// Call the tool with potentially modified args
+					// Pause for the host to approve, deny or change the call
 					try {
-						const result = await tool.handler(beforeEvent.args);
-						inFlightToolCalls.delete(toolName);
+						if (effect === 'ask' || (!builtinTools.has(tool) && await options.requireApproval?.(beforeEvent))) {
+							const decision = await requestApproval({
+								callId: callRecord.callId, executionId, toolName, args: beforeEvent.args, code,
+							});
+							if (decision === 'denied') {
+								inFlightToolCalls.delete(toolName);
+								rejectInVm(`Tool call ${toolName} was denied`);
+								return;
+							}
 
-						const successEvent: ToolCallSuccessEvent = {
-							toolName, args, result,
-						};
-						options.onToolCallSuccess?.(successEvent);
+							if (typeof decision === 'object') {
+								beforeEvent.args = decision.modifiedArgs;
+							}
+						}
+					} catch (err) {
+						inFlightToolCalls.delete(toolName);
+						rejectInVm(err instanceof Error ? err.message : String(err));
+						return;
+					}
 
-						// Extract blobs from result before passing to VM
-						const transformedResult = extractBlobs(successEvent.result, blobStore);
+					// Validate the (possibly modified) args before they reach the handler
+					if (options.validateToolInput) {
+						const violations = validateJsonSchema(beforeEvent.args, tool.inputSchema);
+						if (violations.length > 0) {
+							inFlightToolCalls.delete(toolName);
+							rejectInVm(formatViolations(`Invalid arguments for tool ${toolName}`, violations));
+							return;
+						}
+					}
 
-						resolveQueue = resolveQueue.then(() => {
-							if (vmDisposed || mainPromiseFulfilled) {
+					// Serve results of cacheable tools from the cache, skipping the concurrency cap, rate limits and the handler
+					let resultCacheKey: string | undefined;
+					if (resultCache && !builtinTools.has(tool) && resultCache.cacheable(tool)) {
+						resultCacheKey = cacheKey(toolName, beforeEvent.args, options.cache?.keyPrefix);
+						const cached = await readCachedResult(resultCacheKey);
+						if (cached) {
+							inFlightToolCalls.delete(toolName);
+							callRecord.cached = true;
+							const successEvent: ToolCallSuccessEvent = {
+								...callContext, toolName, args, cached: true, result: cached.result,
+							};
+							try {
+								await options.onToolCallSuccess?.(successEvent);
+							} catch (err) {
+								rejectInVm(err instanceof Error ? err.message : String(err));
 								return;
-							} // Skip if main promise done or VM disposed
-
-							const jsonStr = JSON.stringify(transformedResult);
-							const resultHandle = vm.evalCode(`(${jsonStr})`);
-							if (resultHandle.error) {
-								const str = vm.newString(jsonStr);
-								promise.resolve(str);
-								str.dispose();
-								resultHandle.error.dispose();
-							} else {
-								promise.resolve(resultHandle.value);
-								resultHandle.value.dispose();
 							}
 
-							promiseEntry.settled = true;
-							vm.runtime.executePendingJobs();
-							checkMainPromiseDone();
-						});
-					} catch (err) {
+							resolveInVm(successEvent.result);
+							return;
+						}
+					}
+
+					// Wait for a free slot, then check rate limits
+					let releaseSlot: (() => void) | undefined;
+					if (concurrency) {
+						releaseSlot = await concurrency.acquire();
+						if (!releaseSlot) {
+							// The execution ended while this call was queued
+							inFlightToolCalls.delete(toolName);
+							return;
+						}
+					}
+
+					const rateLimitError = rateLimiter?.take(toolName);
+					if (rateLimitError) {
+						releaseSlot?.();
 						inFlightToolCalls.delete(toolName);
-						const error = err instanceof Error ? err : new Error(String(err));
+						rejectInVm(rateLimitError, 'ToolLimitError');
+						return;
+					}
 
-						const errorEvent: ToolCallErrorEvent = {
-							toolName, args, error,
-						};
-						options.onToolCallError?.(errorEvent);
-
-						// Check if result was set (recovery)
-						if ('result' in errorEvent) {
-							// Extract blobs from recovered result before passing to VM
-							const transformedResult = extractBlobs(errorEvent.result, blobStore);
-
-							resolveQueue = resolveQueue.then(() => {
-								if (vmDisposed || mainPromiseFulfilled) {
-									return;
-								} // Skip if main promise done or VM disposed
-
-								const jsonStr = JSON.stringify(transformedResult);
-								const resultHandle = vm.evalCode(`(${jsonStr})`);
-								if (resultHandle.error) {
-									const str = vm.newString(jsonStr);
-									promise.resolve(str);
-									str.dispose();
-									resultHandle.error.dispose();
-								} else {
-									promise.resolve(resultHandle.value);
-									resultHandle.value.dispose();
-								}
-
-								promiseEntry.settled = true;
-								vm.runtime.executePendingJobs();
-								checkMainPromiseDone();
-							});
-						} else {
-							resolveQueue = resolveQueue.then(() => {
-								if (vmDisposed || mainPromiseFulfilled) {
-									return;
-								} // Skip if main promise done or VM disposed
-
-								const errHandle = vm.newError(error.message);
-								promise.reject(errHandle);
-								errHandle.dispose();
-								promiseEntry.settled = true;
-								vm.runtime.executePendingJobs();
-								checkMainPromiseDone();
-							});
+					// Call the tool with potentially modified args, retrying failed attempts per the retry policy
+					const retry = retryPolicyFor(tool, options.retry);
+					const callHandler = async () => tool.handler(beforeEvent.args, signal, callContext);
+					for (let attempt = 1; ; attempt++) {
+						if (attempt > 1) {
+							callRecord.attempts = attempt;
+						}
+
+						let handlerFailed = true;
+						try {
+							// eslint-disable-next-line no-await-in-loop -- Attempts run one after another
+							const rawResult = await (callInstrumentation ? callInstrumentation.run(callHandler) : callHandler());
+							handlerFailed = false;
+							releaseSlot?.();
+							inFlightToolCalls.delete(toolName);
+
+							const checked = checkToolOutput(tool, beforeEvent.args, rawResult);
+							if ('error' in checked) {
+								rejectInVm(checked.error);
+								return;
+							}
+
+							if (resultCacheKey !== undefined) {
+								// eslint-disable-next-line no-await-in-loop -- Returns right after
+								await writeCachedResult(resultCacheKey, checked.result);
+							}
+
+							const successEvent: ToolCallSuccessEvent = {
+								...callContext, toolName, args, attempt, result: checked.result,
+							};
+							// eslint-disable-next-line no-await-in-loop -- Returns right after
+							await options.onToolCallSuccess?.(successEvent);
+							resolveInVm(successEvent.result);
+							return;
+						} catch (err) {
+							const error = err instanceof Error ? err : new Error(String(err));
+
+							const errorEvent: ToolCallErrorEvent = {
+								...callContext,
+								toolName,
+								args,
+								error,
+								attempt,
+								willRetry: handlerFailed && !runFinished && !signal?.aborted && shouldRetry(retry, tool, error, attempt),
+							};
+							try {
+								// eslint-disable-next-line no-await-in-loop -- Hooks see attempts in order
+								await options.onToolCallError?.(errorEvent);
+							} catch (hookErr) {
+								releaseSlot?.();
+								inFlightToolCalls.delete(toolName);
+								rejectInVm(hookErr instanceof Error ? hookErr.message : String(hookErr));
+								return;
+							}
+
+							// Check if result was set (recovery)
+							if ('result' in errorEvent) {
+								releaseSlot?.();
+								inFlightToolCalls.delete(toolName);
+								resolveInVm(errorEvent.result);
+								return;
+							}
+
+							// Only the handler failing is retried: once it has succeeded, calling it again could repeat its effects
+							if (!errorEvent.willRetry || !handlerFailed || attempt >= maxAttemptsFor(retry)) {
+								releaseSlot?.();
+								inFlightToolCalls.delete(toolName);
+								rejectInVm(error.message, undefined, error);
+								return;
+							}
+
+							// eslint-disable-next-line no-await-in-loop -- Backoff between attempts
+							await waitForRetry(retryDelay(retry, attempt), signal);
+							if (runFinished || signal?.aborted) {
+								releaseSlot?.();
+								inFlightToolCalls.delete(toolName);
+								rejectInVm(error.message, undefined, error);
+								return;
+							}
 						}
 					}
 				})();
@@ -483,18 +1263,15 @@ export async function createSandbox(options: SandboxOptions): Promise<Sandbox> {
 			vm.setProp(vm.global, 'tool', toolFn);
 			toolFn.dispose();
 
-			// Wrap code in async IIFE
-			const wrappedCode = `(async () => { ${code} })()`;
-			const result = vm.evalCode(wrappedCode);
+			// Wrap code in async IIFE (on its own lines, so line numbers map back with WRAPPER_LINE_OFFSET)
+			const wrappedCode = `(async () => {\n${code}\n})()`;
+			const result = inVm(() => vm.evalCode(wrappedCode, CODE_FILENAME));
 
 			if (result.error) {
-				const error = vm.dump(result.error);
+				const error = dumpVmError(vm, result.error);
 				result.error.dispose();
 				storeHandle.dispose();
-				const errorStr = typeof error === 'object' && error !== null
-					? (error as {message?: string}).message || JSON.stringify(error)
-					: String(error);
-				return {success: false, error: augmentErrorMessage(errorStr), blobs: Array.from(blobStore.values())};
+				return failure(describeVmError(error, 'syntax'));
 			}
 
 			// Poll until promise resolves
@@ -508,112 +1285,243 @@ export async function createSandbox(options: SandboxOptions): Promise<Sandbox> {
 			});
 
 			while (promiseState.type === 'pending') {
+				const paused = ownApprovals.size > 0;
 				if (pendingPromises.length > 0) {
+					const waitMs = paused ? 100 : Math.max(0, Math.min(100, deadline - Date.now()));
 					// eslint-disable-next-line no-await-in-loop -- Intentional polling
-					await Promise.race([Promise.all(pendingPromises), sleep(100)]);
+					await Promise.race([Promise.all(pendingPromises), sleep(waitMs), aborted]);
 				} else {
 					// eslint-disable-next-line no-await-in-loop -- Intentional polling
-					await sleep(10);
+					await Promise.race([sleep(10), aborted]);
+				}
+
+				if (signal?.aborted) {
+					rejectPendingToolCalls('Execution cancelled');
+					promiseHandle.dispose();
+					storeHandle.dispose();
+					return failure({kind: 'cancelled', name: 'AbortError', message: 'Execution cancelled'}, {cancelled: true});
+				}
+
+				if (cancelledApprovalId !== undefined) {
+					promiseHandle.dispose();
+					storeHandle.dispose();
+					const message = `Execution cancelled while waiting for approval ${cancelledApprovalId}`;
+					return failure({kind: 'cancelled', name: 'AbortError', message}, {cancelled: true});
+				}
+
+				// An approval the host never resolves must not keep the VM alive forever
+				if (pausedSince !== undefined && Date.now() - pausedSince > approvalTimeoutMs) {
+					promiseHandle.dispose();
+					storeHandle.dispose();
+					return failure({kind: 'timeout', name: 'TimeoutError', message: `Execution timed out after ${approvalTimeoutMs}ms waiting for approval`});
 				}
 
-				vm.runtime.executePendingJobs();
+				inVm(() => vm.runtime.executePendingJobs());
 				promiseState = vm.getPromiseState(promiseHandle);
+
+				// Waiting on the host's approval doesn't count towards the timeout
+				if (paused || ownApprovals.size > 0) {
+					continue;
+				}
+
 				pollIterations += 1;
 
+				if (promiseState.type === 'pending' && Date.now() > deadline) {
+					promiseHandle.dispose();
+					storeHandle.dispose();
+					return failure({kind: 'timeout', name: 'TimeoutError', message: timeoutError()});
+				}
+
 				if (pollIterations >= maxPollIterations) {
 					promiseHandle.dispose();
 					storeHandle.dispose();
 					const inFlight = Array.from(inFlightToolCalls);
-					const error = inFlight.length > 0
+					const message = inFlight.length > 0
 						? `Execution timed out while waiting for tool call(s): ${inFlight.join(', ')}`
 						: 'Execution timed out';
-					return {success: false, error, blobs: Array.from(blobStore.values())};
+					return failure({kind: 'timeout', name: 'TimeoutError', message});
 				}
 			}
 
 			if (promiseState.type === 'fulfilled') {
 				// Signal interrupt handler to stop any further execution (abandoned Promise.race callbacks)
 				mainPromiseFulfilled = true;
-				const value = vm.dump(promiseState.value);
+				finishingUp = true;
+				const resultText = inVm(() => encodeInVm(promiseState.value));
+				finishingUp = false;
+				const value = resultText === undefined ? vm.dump(promiseState.value) : decodeValue(resultText);
 				promiseState.value.dispose();
 				promiseHandle.dispose();
 
-				// Read back store
-				const updatedStore = vm.dump(storeHandle) as Record<string, unknown>;
+				// Write back store changes, unless this is a dry run
+				const storeFailure = dryRun ? undefined : await saveStore(value);
 				storeHandle.dispose();
-				delete updatedStore._prev;
-				store = updatedStore;
-				prevResult = value;
+				if (storeFailure) {
+					return storeFailure;
+				}
 
 				// Truncate if needed
-				const resultStr = JSON.stringify(value) ?? '';
-				if (resultStr.length > maxResultChars) {
-					return {
+				const resultSize = (resultText ?? JSON.stringify(value) ?? '').length;
+				if (resultSize > maxResultChars) {
+					const message = `Result truncated (${resultSize} > ${maxResultChars} chars)`;
+					return buildResult({
 						success: true,
 						result: value,
-						error: `Result truncated (${resultStr.length} > ${maxResultChars} chars)`,
-						blobs: Array.from(blobStore.values()),
-					};
+						error: message,
+						errorDetails: {kind: 'truncated', name: 'TruncationError', message},
+					});
 				}
 
-				return {success: true, result: value, blobs: Array.from(blobStore.values())};
+				return buildResult({success: true, result: value});
 			}
 
 			if (promiseState.type === 'rejected') {
 				// Signal interrupt handler to stop any further execution (abandoned Promise.race callbacks)
 				mainPromiseFulfilled = true;
-				const error = vm.dump(promiseState.error);
+				const error = dumpVmError(vm, promiseState.error);
 				promiseState.error.dispose();
 				promiseHandle.dispose();
 				storeHandle.dispose();
-				const errorStr = typeof error === 'object' && error !== null
-					? (error as {message?: string}).message || JSON.stringify(error)
-					: String(error);
-				return {success: false, error: augmentErrorMessage(errorStr), blobs: Array.from(blobStore.values())};
+				return failure(describeVmError(error, 'runtime'));
 			}
 
 			promiseHandle.dispose();
 			storeHandle.dispose();
-			return {success: false, error: 'Promise did not resolve', blobs: Array.from(blobStore.values())};
+			return failure({kind: 'runtime', name: 'Error', message: 'Promise did not resolve'});
 		} finally {
-			// Mark VM as disposed so any late callbacks skip their resolution
-			vmDisposed = true;
+			// Mark run as finished so any late callbacks skip their resolution
+			runFinished = true;
+			concurrency?.close();
+			signal?.removeEventListener('abort', onAbort);
+
+			// Approvals can't resume a finished execution
+			for (const id of ownApprovals) {
+				pendingApprovals.delete(id);
+			}
 
-			// Just dispose - don't bother settling promises
-			// QuickJS may complain but let's see if it actually breaks anything
-			try {
-				vm.dispose();
-			} catch (e) {
-				// Ignore disposal errors - VM is done anyway
-				console.warn('[tool-sandbox] VM disposal warning:', e);
+			if (marshalHandle?.alive) {
+				marshalHandle.dispose();
+			}
+
+			if (session) {
+				// Keep the VM, but free resolvers of tool() calls that will now never settle
+				for (const entry of pendingQjsPromises) {
+					if (!entry.settled) {
+						entry.promise.dispose();
+					}
+				}
+			} else {
+				// Just dispose - don't bother settling promises
+				// QuickJS may complain but let's see if it actually breaks anything
+				try {
+					vm.dispose();
+				} catch (e) {
+					// Ignore disposal errors - VM is done anyway
+					console.warn('[tool-sandbox] VM disposal warning:', e);
+				}
 			}
 		}
 	}
 
+	// Create an execute tool object around the given handler
+	function createExecuteTool(handler: ExecuteTool['handler'], session = false): ExecuteTool {
+		return {
+			name: 'execute',
+			description: generateExecuteDescription(tools.filter(isVisible).map((t) => t.name), session),
+			inputSchema: {
+				type: 'object',
+				properties: {code: {type: 'string', description: 'JavaScript code to execute'}},
+				required: ['code'],
+			},
+			outputSchema: {
+				type: 'object',
+				properties: {
+					success: {type: 'boolean'},
+					result: {description: 'Return value from the executed code'},
+					error: {type: 'string', description: 'Error message if execution failed'},
+					errorDetails: {type: 'object', description: 'Structured error: kind, name, message, stack, line, toolName'},
+					blobs: {type: 'array', description: 'Extracted binary blobs (images, etc.)'},
+					logs: {type: 'array', description: 'Console output captured during execution'},
+				},
+				required: ['success', 'blobs'],
+			},
+			handler,
+		};
+	}
+
+	// Start an execution. first is its first result (the final result, or a pending approval); done settles when it finishes.
+	function startExecution(code: string, signal?: AbortSignal, session?: {vm: QuickJSContext | null}, dryRun = false): {first: Promise<ExecuteResult>; done: Promise<void>} {
+		const channel = createResultChannel();
+		const done = executeCode(code, signal, session, channel, dryRun).then((result) => {
+			channel.push({result});
+		}, (error: unknown) => {
+			channel.push({error: error instanceof Error ? error : new Error(String(error))});
+		});
+		return {first: channel.next(), done};
+	}
+
 	// Create execute tool
-	const executeTool: Sandbox['execute'] = {
-		name: 'execute',
-		description: generateExecuteDescription(tools.map((t) => t.name)),
-		inputSchema: {
-			type: 'object',
-			properties: {code: {type: 'string', description: 'JavaScript code to execute'}},
-			required: ['code'],
-		},
-		outputSchema: {
-			type: 'object',
-			properties: {
-				success: {type: 'boolean'},
-				result: {description: 'Return value from the executed code'},
-				error: {type: 'string', description: 'Error message if execution failed'},
-				blobs: {type: 'array', description: 'Extracted binary blobs (images, etc.)'},
+	const executeTool = createExecuteTool(async (args, signal) => {
+		const {code} = args;
+		return startExecution(code, signal).first;
+	});
+
+	// Execute tools of live sessions, so their descriptions follow addTool/removeTool
+	const sessionExecuteTools = new Set<ExecuteTool>();
+
+	// Regenerate execute descriptions after the tool list changes
+	function updateDescriptions() {
+		const toolNames = tools.filter(isVisible).map((t) => t.name);
+		executeTool.description = generateExecuteDescription(toolNames);
+		for (const sessionExecuteTool of sessionExecuteTools) {
+			sessionExecuteTool.description = generateExecuteDescription(toolNames, true);
+		}
+	}
+
+	// Create a session that reuses one VM across executions
+	function createSession(): Session {
+		const state: {vm: QuickJSContext | null} = {vm: null};
+		let disposed = false;
+		// Executions share a VM, so run them one at a time
+		let queue: Promise<unknown> = Promise.resolve();
+
+		const disposeVm = () => {
+			try {
+				state.vm?.dispose();
+			} catch (e) {
+				console.warn('[tool-sandbox] VM disposal warning:', e);
+			}
+
+			state.vm = null;
+		};
+
+		const sessionExecuteTool = createExecuteTool(async (args, signal) => {
+			const run = queue.then(() => {
+				if (disposed) {
+					throw new Error('Session has been disposed');
+				}
+
+				return startExecution(args.code, signal, state);
+			});
+			// The next execution waits for this one to finish, including any approvals it pauses for
+			queue = run.then(async (execution) => execution.done).catch(() => undefined);
+			return run.then(async (execution) => execution.first);
+		}, true);
+		sessionExecuteTools.add(sessionExecuteTool);
+
+		return {
+			execute: sessionExecuteTool,
+			reset() {
+				// Wait for any running execution before discarding its VM
+				queue = queue.then(disposeVm);
 			},
-			required: ['success', 'blobs'],
-		},
-		async handler(args) {
-			const {code} = args;
-			return executeCode(code);
-		},
-	};
+			dispose() {
+				disposed = true;
+				sessionExecuteTools.delete(sessionExecuteTool);
+				queue = queue.then(disposeVm);
+			},
+		};
+	}
 
 	const sandbox: Sandbox = {
 		tools,
@@ -622,15 +1530,46 @@ export async function createSandbox(options: SandboxOptions): Promise<Sandbox> {
 		},
 		set store(value) {
 			store = value;
+			storeSizes.clear();
+			storeReplaced = true;
 		},
 		execute: executeTool,
+		async dryRun(args: {code: string}, signal?: AbortSignal) {
+			return startExecution(args.code, signal, undefined, true).first;
+		},
+		createSession,
+		assertReplayComplete() {
+			if (options.replay) {
+				assertReplayComplete(options.replay, replayIndex);
+			}
+		},
+		async resolveApproval(id: string, decision: ApprovalDecision) {
+			const pending = pendingApprovals.get(id);
+			if (!pending) {
+				throw new Error(`No pending approval with id ${id}`);
+			}
+
+			pendingApprovals.delete(id);
+			pending.decide(decision);
+			return pending.channel.next();
+		},
+		async cancelApproval(id: string) {
+			const pending = pendingApprovals.get(id);
+			if (!pending) {
+				throw new Error(`No pending approval with id ${id}`);
+			}
+
+			pendingApprovals.delete(id);
+			pending.cancel();
+			return pending.channel.next();
+		},
 		addTool(tool: Tool) {
 			if (tools.some((t) => t.name === tool.name)) {
 				throw new Error(`Duplicate tool name: ${tool.name}`);
 			}
 
 			tools.push(tool);
-			executeTool.description = generateExecuteDescription(tools.map((t) => t.name));
+			updateDescriptions();
 		},
 		removeTool(name: string) {
 			const index = tools.findIndex((t) => t.name === name);
@@ -639,7 +1578,7 @@ export async function createSandbox(options: SandboxOptions): Promise<Sandbox> {
 			}
 
 			tools.splice(index, 1);
-			executeTool.description = generateExecuteDescription(tools.map((t) => t.name));
+			updateDescriptions();
 		},
 	};
 
@@ -0,0 +1,136 @@
+import {test, expect, vi} from 'vitest';
+import {createRateLimiter, createConcurrencyLimiter} from './limits';
+import {createSandbox, type Tool} from './index';
+
+test('rate limiter allows a burst, then refills at the given rate', () => {
+	vi.useFakeTimers({toFake: ['Date']});
+	try {
+		const limiter = createRateLimiter({'gmail__*': {perSecond: 2, burst: 3}});
+
+		expect(limiter.take('gmail__send')).toBeUndefined();
+		expect(limiter.take('gmail__list')).toBeUndefined();
+		expect(limiter.take('gmail__send')).toBeUndefined();
+		expect(limiter.take('gmail__send')).toBe('Rate limit exceeded for tool gmail__send (gmail__*: 2 calls per second, burst 3). Try again in 500ms');
+		expect(limiter.take('slack__post')).toBeUndefined();
+
+		vi.advanceTimersByTime(500);
+		expect(limiter.take('gmail__send')).toBeUndefined();
+		expect(limiter.take('gmail__send')).toBeDefined();
+	} finally {
+		vi.useRealTimers();
+	}
+});
+
+test('rate limiter takes no tokens when any matching bucket is empty', () => {
+	const limiter = createRateLimiter({'gmail__*': {perSecond: 1, burst: 2}, gmail__send: {perSecond: 1}});
+
+	expect(limiter.take('gmail__send')).toBeUndefined();
+	expect(limiter.take('gmail__send')).toContain('(gmail__send:');
+	expect(limiter.take('gmail__list')).toBeUndefined();
+	expect(limiter.take('gmail__list')).toContain('(gmail__*:');
+});
+
+test('concurrency limiter queues in order and releases queued calls on close', async () => {
+	const limiter = createConcurrencyLimiter(1);
+	const release = await limiter.acquire();
+	const order: string[] = [];
+
+	const second = limiter.acquire().then((r) => {
+		order.push('second');
+		return r;
+	});
+	const third = limiter.acquire();
+	release!();
+	release!(); // Releasing twice frees one slot
+
+	const secondRelease = await second;
+	expect(order).toEqual(['second']);
+	limiter.close();
+	expect(await third).toBeUndefined();
+	secondRelease!();
+	expect(await limiter.acquire()).toBeUndefined();
+});
+
+test('maxCalls caps tool calls per execution', async () => {
+	const add = vi.fn(async () => 'added');
+	const sandbox = await createSandbox({tools: [{name: 'add', inputSchema: {type: 'object'}, handler: add}], limits: {maxCalls: 2}});
+
+	const result = await sandbox.execute.handler({
+		code: 'for (let i = 0; i < 5; i++) await tool("add", {a: i, b: 1}); return "done";',
+	});
+
+	expect(result.success).toBe(false);
+	expect(result.errorDetails).toMatchObject({
+		kind: 'limit',
+		name: 'ToolLimitError',
+		message: 'Tool call limit exceeded: at most 2 tool calls per execution',
+		toolName: 'add',
+	});
+	expect(add).toHaveBeenCalledTimes(2);
+
+	// The count starts again with each execution
+	expect(await sandbox.execute.handler({code: 'return tool("add", {a: 1, b: 1});'})).toMatchObject({success: true});
+});
+
+test('maxCallsPerTool caps calls of each tool', async () => {
+	const add = vi.fn(async () => 'added');
+	const sandbox = await createSandbox({tools: [{name: 'add', inputSchema: {type: 'object'}, handler: add}], limits: {maxCallsPerTool: 1}});
+
+	const result = await sandbox.execute.handler({
+		code: `
+			await tool("add", {a: 1, b: 1});
+			await tool("list_tools", {});
+			try {
+				await tool("add", {a: 1, b: 1});
+			} catch (e) {
+				return e.name + ': ' + e.message;
+			}
+		`,
+	});
+
+	expect(result.result).toBe('ToolLimitError: Tool call limit exceeded: at most 1 calls to add per execution');
+	expect(add).toHaveBeenCalledTimes(1);
+});
+
+test('maxConcurrency queues calls beyond the limit', async () => {
+	let running = 0;
+	let peak = 0;
+	const slowTool: Tool = {
+		name: 'slow',
+		inputSchema: {type: 'object'},
+		async handler(args) {
+			running += 1;
+			peak = Math.max(peak, running);
+			await new Promise((resolve) => {
+				setTimeout(resolve, 20);
+			});
+			running -= 1;
+			return (args as {i: number}).i;
+		},
+	};
+	const sandbox = await createSandbox({tools: [slowTool], limits: {maxConcurrency: 2}});
+
+	const result = await sandbox.execute.handler({
+		code: 'return Promise.all([1, 2, 3, 4, 5].map((i) => tool("slow", {i})));',
+	});
+
+	expect(result).toMatchObject({success: true, result: [1, 2, 3, 4, 5]});
+	expect(peak).toBe(2);
+});
+
+test('rate limits apply across executions', async () => {
+	const add = vi.fn(async () => 'added');
+	const sandbox = await createSandbox({
+		tools: [{name: 'add', inputSchema: {type: 'object'}, handler: add}],
+		limits: {rateLimits: {add: {perSecond: 0.1, burst: 2}}},
+	});
+
+	expect(await sandbox.execute.handler({code: 'return tool("add", {a: 1, b: 1});'})).toMatchObject({success: true});
+	const result = await sandbox.execute.handler({
+		code: 'await tool("add", {a: 1, b: 1}); return tool("add", {a: 1, b: 1});',
+	});
+
+	expect(result.errorDetails).toMatchObject({kind: 'limit', name: 'ToolLimitError', toolName: 'add'});
+	expect(result.error).toContain('Rate limit exceeded for tool add (add: 0.1 calls per second, burst 2)');
+	expect(add).toHaveBeenCalledTimes(2);
+});
@@ -0,0 +1,84 @@
+import {globToRegExp} from './policy.js';
+import type {RateLimit} from './types.js';
+
+/** Token buckets for SandboxOptions.limits.rateLimits, shared by all executions of a sandbox */
+export function createRateLimiter(rateLimits: Record<string, RateLimit>) {
+	const buckets = Object.entries(rateLimits).map(([glob, limit]) => {
+		const capacity = Math.max(1, limit.burst ?? limit.perSecond);
+		return {
+			glob, pattern: globToRegExp(glob), limit, capacity, tokens: capacity, updatedAt: Date.now(),
+		};
+	});
+
+	return {
+		/** Take a token from every bucket matching a tool, or return an error message if one is empty (taking none) */
+		take(toolName: string): string | undefined {
+			const now = Date.now();
+			const matching = buckets.filter((bucket) => bucket.pattern.test(toolName));
+			for (const bucket of matching) {
+				bucket.tokens = Math.min(bucket.capacity, bucket.tokens + ((now - bucket.updatedAt) / 1000 * bucket.limit.perSecond));
+				bucket.updatedAt = now;
+			}
+
+			const empty = matching.find((bucket) => bucket.tokens < 1);
+			if (empty) {
+				const retryMs = Math.ceil((1 - empty.tokens) / empty.limit.perSecond * 1000);
+				return `Rate limit exceeded for tool ${toolName} (${empty.glob}: ${empty.limit.perSecond} calls per second, burst ${empty.capacity}). Try again in ${retryMs}ms`;
+			}
+
+			for (const bucket of matching) {
+				bucket.tokens -= 1;
+			}
+
+			return undefined;
+		},
+	};
+}
+
+/** Slots for SandboxOptions.limits.maxConcurrency, queueing calls beyond the limit in order */
+export function createConcurrencyLimiter(max: number) {
+	let running = 0;
+	let closed = false;
+	const waiting: ((release: (() => void) | undefined) => void)[] = [];
+
+	const grant = (): () => void => {
+		running += 1;
+		let released = false;
+		return () => {
+			if (released) {
+				return;
+			}
+
+			released = true;
+			running -= 1;
+			const next = waiting.shift();
+			if (next) {
+				next(grant());
+			}
+		};
+	};
+
+	return {
+		/** Wait for a free slot. Resolves with a function releasing it, or undefined if the limiter was closed first. */
+		async acquire(): Promise<(() => void) | undefined> {
+			if (closed) {
+				return undefined;
+			}
+
+			if (running < max) {
+				return grant();
+			}
+
+			return new Promise((resolve) => {
+				waiting.push(resolve);
+			});
+		},
+		/** Stop granting slots, resolving queued calls with undefined */
+		close() {
+			closed = true;
+			for (const resolve of waiting.splice(0)) {
+				resolve(undefined);
+			}
+		},
+	};
+}
@@ -0,0 +1,43 @@
+import {test, expect} from 'vitest';
+import {encodeValue, decodeValue} from './marshal';
+
+test('plain JSON values encode as plain JSON', () => {
+	const value = {a: 1, b: ['x', null, true], c: {d: 'e'}};
+	expect(encodeValue(value)).toBe(JSON.stringify(value));
+	expect(decodeValue(JSON.stringify(value))).toEqual(value);
+});
+
+test('round-trips values JSON cannot represent', () => {
+	const value = {
+		date: new Date('2024-01-02T03:04:05.678Z'),
+		invalidDate: new Date(Number.NaN),
+		map: new Map<unknown, unknown>([['k', 1], [2, new Set(['a'])]]),
+		set: new Set([1, 2]),
+		big: 12345678901234567890n,
+		bytes: new Uint8Array([0, 1, 254, 255]),
+		missing: undefined,
+		list: [undefined, Number.NaN, Number.POSITIVE_INFINITY, -0],
+	};
+
+	const decoded = decodeValue(encodeValue(value)) as typeof value;
+
+	expect(decoded).toEqual(value);
+	expect(decoded.date).toBeInstanceOf(Date);
+	expect(Number.isNaN(decoded.invalidDate.getTime())).toBe(true);
+	expect(decoded.bytes).toBeInstanceOf(Uint8Array);
+	expect('missing' in decoded).toBe(true);
+	expect(Object.is(decoded.list[3], -0)).toBe(true);
+});
+
+test('escapes objects that use the tag key', () => {
+	const value = {$t: 'Date', v: 0};
+	expect(decodeValue(encodeValue(value))).toEqual(value);
+});
+
+test('drops functions in objects and rejects circular structures', () => {
+	expect(decodeValue(encodeValue({a: 1, f: () => 1}))).toEqual({a: 1});
+
+	const circular: Record<string, unknown> = {};
+	circular.self = circular;
+	expect(() => encodeValue(circular)).toThrow('Cannot marshal circular structure');
+});
@@ -0,0 +1,226 @@
+/**
+ * Structured-clone-style marshalling between the host and the VM.
+ *
+ * Values are encoded as JSON, with values JSON can't represent replaced by tagged
+ * objects like {"$t": "Date", "v": 0}. Plain JSON values encode to plain JSON, and
+ * objects that happen to have a "$t" key are escaped as {"$t": "object", "v": ...}.
+ * The same format is implemented inside the VM by MARSHAL_VM_CODE.
+ */
+
+/** Tag key marking an encoded non-JSON value */
+const TAG = '$t';
+
+function toWire(value: unknown, seen: Set<object>): unknown {
+	switch (typeof value) {
+		case 'string':
+		case 'boolean':
+			return value;
+		case 'number':
+			if (Number.isFinite(value) && !Object.is(value, -0)) {
+				return value;
+			}
+
+			return {[TAG]: 'number', v: Object.is(value, -0) ? '-0' : String(value)};
+		case 'bigint':
+			return {[TAG]: 'bigint', v: value.toString()};
+		case 'undefined':
+		case 'function':
+		case 'symbol':
+			return {[TAG]: 'undefined'};
+		case 'object':
+			break;
+	}
+
+	if (value === null) {
+		return null;
+	}
+
+	const obj = value;
+	if (seen.has(obj)) {
+		throw new TypeError('Cannot marshal circular structure');
+	}
+
+	seen.add(obj);
+	try {
+		if (obj instanceof Date) {
+			const time = obj.getTime();
+			return {[TAG]: 'Date', v: Number.isNaN(time) ? null : time};
+		}
+
+		if (obj instanceof Uint8Array) {
+			return {[TAG]: 'Uint8Array', v: Buffer.from(obj).toString('base64')};
+		}
+
+		if (obj instanceof Map) {
+			return {[TAG]: 'Map', v: [...obj].map(([k, v]) => [toWire(k, seen), toWire(v, seen)])};
+		}
+
+		if (obj instanceof Set) {
+			return {[TAG]: 'Set', v: [...obj].map((item) => toWire(item, seen))};
+		}
+
+		if (Array.isArray(obj)) {
+			return Array.from(obj, (item) => toWire(item, seen));
+		}
+
+		const result: Record<string, unknown> = {};
+		for (const [key, item] of Object.entries(obj)) {
+			// Like JSON, drop properties that can't be represented at all
+			if (typeof item !== 'function' && typeof item !== 'symbol') {
+				result[key] = toWire(item, seen);
+			}
+		}
+
+		return Object.hasOwn(result, TAG) ? {[TAG]: 'object', v: result} : result;
+	} finally {
+		seen.delete(obj);
+	}
+}
+
+function fromWire(wire: unknown): unknown {
+	if (typeof wire !== 'object' || wire === null) {
+		return wire;
+	}
+
+	if (Array.isArray(wire)) {
+		return wire.map(fromWire);
+	}
+
+	const w = wire as Record<string, unknown>;
+	switch (w[TAG]) {
+		case undefined:
+			break;
+		case 'undefined':
+			return undefined;
+		case 'number':
+			return w.v === '-0' ? -0 : Number(w.v);
+		case 'bigint':
+			return BigInt(w.v as string);
+		case 'Date':
+			return new Date(w.v === null ? Number.NaN : w.v as number);
+		case 'Uint8Array':
+			return new Uint8Array(Buffer.from(w.v as string, 'base64'));
+		case 'Map':
+			return new Map((w.v as unknown[][]).map(([k, v]) => [fromWire(k), fromWire(v)]));
+		case 'Set':
+			return new Set((w.v as unknown[]).map(fromWire));
+		case 'object':
+			return fromPlainWire(w.v as Record<string, unknown>);
+		default:
+			throw new TypeError(`Unknown marshalled type: ${String(w[TAG])}`);
+	}
+
+	return fromPlainWire(w);
+}
+
+function fromPlainWire(wire: Record<string, unknown>): Record<string, unknown> {
+	const result: Record<string, unknown> = {};
+	for (const [key, item] of Object.entries(wire)) {
+		result[key] = fromWire(item);
+	}
+
+	return result;
+}
+
+/** Encode a value as JSON text, preserving Date, Map, Set, BigInt, Uint8Array, undefined and non-finite numbers */
+export function encodeValue(value: unknown): string {
+	return JSON.stringify(toWire(value, new Set()));
+}
+
+/** Decode JSON text produced by encodeValue (plain JSON decodes as itself) */
+export function decodeValue(text: string): unknown {
+	return fromWire(JSON.parse(text));
+}
+
+/** Source of a VM-side expression evaluating to {encode, decode}, implementing the same format */
+export const MARSHAL_VM_CODE = `(() => {
+	const TAG = '$t';
+	const B64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+	const toBase64 = (bytes) => {
+		let out = '';
+		for (let i = 0; i < bytes.length; i += 3) {
+			const n = (bytes[i] << 16) | ((bytes[i + 1] ?? 0) << 8) | (bytes[i + 2] ?? 0);
+			out += B64[(n >> 18) & 63] + B64[(n >> 12) & 63];
+			out += i + 1 < bytes.length ? B64[(n >> 6) & 63] : '=';
+			out += i + 2 < bytes.length ? B64[n & 63] : '=';
+		}
+		return out;
+	};
+	const fromBase64 = (text) => {
+		const clean = text.replace(/=+$/, '');
+		const bytes = new Uint8Array(Math.floor(clean.length * 3 / 4));
+		let bits = 0;
+		let buffer = 0;
+		let index = 0;
+		for (const char of clean) {
+			buffer = (buffer << 6) | B64.indexOf(char);
+			bits += 6;
+			if (bits >= 8) {
+				bits -= 8;
+				bytes[index++] = (buffer >> bits) & 255;
+			}
+		}
+		return bytes;
+	};
+	const toWire = (value, seen) => {
+		switch (typeof value) {
+			case 'string':
+			case 'boolean':
+				return value;
+			case 'number':
+				if (Number.isFinite(value) && !Object.is(value, -0)) return value;
+				return {[TAG]: 'number', v: Object.is(value, -0) ? '-0' : String(value)};
+			case 'bigint':
+				return {[TAG]: 'bigint', v: value.toString()};
+			case 'undefined':
+			case 'function':
+			case 'symbol':
+				return {[TAG]: 'undefined'};
+		}
+		if (value === null) return null;
+		if (seen.has(value)) throw new TypeError('Cannot marshal circular structure');
+		seen.add(value);
+		try {
+			if (value instanceof Date) {
+				const time = value.getTime();
+				return {[TAG]: 'Date', v: Number.isNaN(time) ? null : time};
+			}
+			if (value instanceof Uint8Array) return {[TAG]: 'Uint8Array', v: toBase64(value)};
+			if (value instanceof Map) return {[TAG]: 'Map', v: [...value].map(([k, v]) => [toWire(k, seen), toWire(v, seen)])};
+			if (value instanceof Set) return {[TAG]: 'Set', v: [...value].map((item) => toWire(item, seen))};
+			if (Array.isArray(value)) return Array.from(value, (item) => toWire(item, seen));
+			const result = {};
+			for (const [key, item] of Object.entries(value)) {
+				if (typeof item !== 'function' && typeof item !== 'symbol') result[key] = toWire(item, seen);
+			}
+			return Object.prototype.hasOwnProperty.call(result, TAG) ? {[TAG]: 'object', v: result} : result;
+		} finally {
+			seen.delete(value);
+		}
+	};
+	const fromPlainWire = (wire) => {
+		const result = {};
+		for (const [key, item] of Object.entries(wire)) result[key] = fromWire(item);
+		return result;
+	};
+	const fromWire = (wire) => {
+		if (typeof wire !== 'object' || wire === null) return wire;
+		if (Array.isArray(wire)) return wire.map(fromWire);
+		switch (wire[TAG]) {
+			case undefined: return fromPlainWire(wire);
+			case 'undefined': return undefined;
+			case 'number': return wire.v === '-0' ? -0 : Number(wire.v);
+			case 'bigint': return BigInt(wire.v);
+			case 'Date': return new Date(wire.v === null ? NaN : wire.v);
+			case 'Uint8Array': return fromBase64(wire.v);
+			case 'Map': return new Map(wire.v.map(([k, v]) => [fromWire(k), fromWire(v)]));
+			case 'Set': return new Set(wire.v.map(fromWire));
+			case 'object': return fromPlainWire(wire.v);
+			default: throw new TypeError('Unknown marshalled type: ' + wire[TAG]);
+		}
+	};
+	return {
+		encode: (value) => JSON.stringify(toWire(value, new Set())),
+		decode: (text) => fromWire(JSON.parse(text)),
+	};
+})()`;
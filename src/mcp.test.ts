@@ -1,9 +1,14 @@
-import {test, expect} from 'vitest';
+import {test, expect, vi} from 'vitest';
 import {Client} from '@modelcontextprotocol/sdk/client/index.js';
 import {McpServer, ResourceTemplate} from '@modelcontextprotocol/sdk/server/mcp.js';
 import {InMemoryTransport} from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+	ErrorCode, ListResourcesRequestSchema, ListToolsRequestSchema, McpError, type ClientCapabilities,
+} from '@modelcontextprotocol/sdk/types.js';
 import {z} from 'zod';
-import {fromMcpClients} from './mcp.js';
+import {
+	bindMcpClients, fromMcpClients, type McpListDiagnostics, type McpRequestContext,
+} from './mcp.js';
 import {createSandbox} from './index.js';
 
 /** Create a test MCP server with all supported features */
@@ -24,6 +29,7 @@ function createTestServer() {
 	server.registerTool('greet', {
 		description: 'Greet someone',
 		inputSchema: {name: z.string()},
+		annotations: {readOnlyHint: true, openWorldHint: false},
 	}, async ({name}) => ({
 		content: [{type: 'text' as const, text: `Hello, ${name}!`}],
 	}));
@@ -36,6 +42,25 @@ function createTestServer() {
 		throw new Error('Intentional failure');
 	});
 
+	// Tool that makes requests back to the client
+	server.registerTool('ask', {
+		description: 'Sample, elicit and list roots',
+		inputSchema: {},
+	}, async () => {
+		const sample = await server.server.createMessage({
+			messages: [{role: 'user', content: {type: 'text', text: 'Say hi'}}],
+			maxTokens: 10,
+		});
+		const elicited = await server.server.elicitInput({
+			message: 'Continue?',
+			requestedSchema: {type: 'object', properties: {ok: {type: 'boolean'}}},
+		});
+		const {roots} = await server.server.listRoots();
+		return {
+			content: [{type: 'text' as const, text: JSON.stringify({sample: sample.content, elicited: elicited.content, roots})}],
+		};
+	});
+
 	// Prompts
 	server.registerPrompt('simple', {
 		description: 'A simple prompt',
@@ -64,9 +89,8 @@ function createTestServer() {
 }
 
 /** Connect client and server via InMemoryTransport */
-async function createConnectedClient(): Promise<Client> {
-	const client = new Client({name: 'test-client', version: '1.0.0'}, {capabilities: {}});
-	const server = createTestServer();
+async function createConnectedClient(capabilities: ClientCapabilities = {}, server = createTestServer()): Promise<Client> {
+	const client = new Client({name: 'test-client', version: '1.0.0'}, {capabilities});
 
 	const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
 
@@ -98,6 +122,14 @@ test('fromMcpClients creates prefixed tools with correct schemas', async () => {
 	expect(fileTemplate?.inputSchema.properties).toHaveProperty('path');
 });
 
+test('fromMcpClients copies tool annotations', async () => {
+	const client = await createConnectedClient();
+	const tools = await fromMcpClients({test: client});
+
+	expect(tools.find((t) => t.name === 'test__greet')?.annotations).toEqual({readOnlyHint: true, openWorldHint: false});
+	expect(tools.find((t) => t.name === 'test__add')?.annotations).toBeUndefined();
+});
+
 test('MCP tool with structuredContent can be called from sandbox', async () => {
 	const client = await createConnectedClient();
 	const mcpTools = await fromMcpClients({test: client});
@@ -225,3 +257,359 @@ test('multiple MCP clients are processed in parallel', async () => {
 	expect(tools.find((t) => t.name === 'first__add')).toBeDefined();
 	expect(tools.find((t) => t.name === 'second__add')).toBeDefined();
 });
+
+test('fromMcpClients handles sampling, elicitation and roots requests', async () => {
+	const client = await createConnectedClient({sampling: {}, elicitation: {}, roots: {}});
+	const requests: {type: string; params?: unknown; context: McpRequestContext}[] = [];
+	const mcpTools = await fromMcpClients({test: client}, {
+		async onSampling(params, context) {
+			requests.push({type: 'sampling', params, context});
+			return {role: 'assistant', content: {type: 'text', text: 'hi'}, model: 'test-model'};
+		},
+		async onElicitation(params, context) {
+			requests.push({type: 'elicitation', params, context});
+			return {action: 'accept', content: {ok: true}};
+		},
+		async onListRoots(context) {
+			requests.push({type: 'roots', context});
+			return {roots: [{uri: 'file:///workspace', name: 'workspace'}]};
+		},
+	});
+	const sandbox = await createSandbox({tools: mcpTools, trace: true});
+
+	const result = await sandbox.execute.handler({
+		code: 'return await tool(\'test__ask\', {});',
+	});
+
+	expect(result.success).toBe(true);
+	expect(result.result).toEqual({
+		sample: {type: 'text', text: 'hi'},
+		elicited: {ok: true},
+		roots: [{uri: 'file:///workspace', name: 'workspace'}],
+	});
+	expect(requests.map((r) => r.type)).toEqual(['sampling', 'elicitation', 'roots']);
+	expect(requests[0]?.params).toMatchObject({maxTokens: 10});
+	expect(requests[1]?.params).toMatchObject({message: 'Continue?'});
+	for (const {context} of requests) {
+		expect(context.prefix).toBe('test');
+		expect(context.calls).toHaveLength(1);
+		expect(context.call).toEqual({
+			callId: result.trace?.toolCalls[0]?.callId,
+			executionId: result.trace?.executionId,
+			toolName: 'test__ask',
+		});
+	}
+});
+
+test('fromMcpClients explains a missing client capability', async () => {
+	const client = await createConnectedClient();
+
+	await expect(fromMcpClients({test: client}, {
+		async onSampling() {
+			return {role: 'assistant', content: {type: 'text', text: 'hi'}, model: 'test-model'};
+		},
+	})).rejects.toThrow(/MCP client test: .*sampling/);
+});
+
+test('bindMcpClients follows list_changed notifications', async () => {
+	const server = createTestServer();
+	const client = await createConnectedClient({}, server);
+	const sandbox = await createSandbox({tools: []});
+	const binding = await bindMcpClients(sandbox, {test: client});
+
+	expect(sandbox.tools.map((t) => t.name)).toContain('test__add');
+	expect(sandbox.execute.description).toContain('test__add');
+
+	// Registering and removing tools after connecting sends tools/list_changed
+	const added = server.registerTool('multiply', {
+		description: 'Multiply two numbers',
+		inputSchema: {a: z.number(), b: z.number()},
+	}, async ({a, b}) => ({
+		content: [{type: 'text' as const, text: String(a * b)}],
+	}));
+	await vi.waitFor(() => {
+		expect(sandbox.tools.map((t) => t.name)).toContain('test__multiply');
+	});
+	expect(sandbox.execute.description).toContain('test__multiply');
+
+	const result = await sandbox.execute.handler({
+		code: 'return await tool(\'test__multiply\', {a: 3, b: 4});',
+	});
+	expect(result).toMatchObject({success: true, result: 12});
+
+	added.update({description: 'Multiply numbers'});
+	await vi.waitFor(() => {
+		expect(sandbox.tools.find((t) => t.name === 'test__multiply')?.description).toBe('Multiply numbers');
+	});
+
+	added.remove();
+	await vi.waitFor(() => {
+		expect(sandbox.tools.map((t) => t.name)).not.toContain('test__multiply');
+	});
+	expect(sandbox.execute.description).not.toContain('test__multiply');
+
+	binding.dispose();
+	expect(sandbox.tools.filter((t) => t.mcpPrefix)).toHaveLength(0);
+	expect(sandbox.execute.description).not.toContain('test__add');
+});
+
+test('bindMcpClients reports refresh errors', async () => {
+	const server = createTestServer();
+	const client = await createConnectedClient({}, server);
+	const sandbox = await createSandbox({
+		tools: [{
+			name: 'test__clash', description: 'Not from MCP', inputSchema: {type: 'object'}, handler: async () => null,
+		}],
+	});
+	const onRefreshError = vi.fn();
+	const binding = await bindMcpClients(sandbox, {test: client}, {onRefreshError});
+
+	server.registerTool('clash', {description: 'Clashes', inputSchema: {}}, async () => ({content: []}));
+	await vi.waitFor(() => {
+		expect(onRefreshError).toHaveBeenCalledWith(expect.objectContaining({message: 'Duplicate tool name: test__clash'}), 'test');
+	});
+
+	binding.dispose();
+	expect(sandbox.tools.map((t) => t.name)).toContain('test__clash');
+	expect(sandbox.tools.filter((t) => t.mcpPrefix)).toHaveLength(0);
+});
+
+test('bindMcpClients unbinds every client if one fails to bind', async () => {
+	const firstServer = createTestServer();
+	const first = await createConnectedClient({}, firstServer);
+	const second = await createConnectedClient();
+	const sandbox = await createSandbox({
+		tools: [{
+			name: 'second__add', description: 'Not from MCP', inputSchema: {type: 'object'}, handler: async () => null,
+		}],
+	});
+
+	await expect(bindMcpClients(sandbox, {first, second})).rejects.toThrow('Duplicate tool name: second__add');
+	expect(sandbox.tools.filter((t) => t.mcpPrefix)).toHaveLength(0);
+
+	// The first client's list_changed handler was removed too
+	firstServer.registerTool('multiply', {description: 'Multiply numbers', inputSchema: {}}, async () => ({content: []}));
+	await new Promise((resolve) => {
+		setTimeout(resolve, 50);
+	});
+	expect(sandbox.tools.filter((t) => t.mcpPrefix)).toHaveLength(0);
+});
+
+/** Connect a client to a server listing 25 resources, 10 per page, with the given cursor after each page */
+async function createPaginatedClient(nextCursor = (end: number) => (end < 25 ? String(end) : undefined)): Promise<Client> {
+	const server = new McpServer({name: 'paginated-server', version: '1.0.0'}, {capabilities: {resources: {}}});
+	const resources = Array.from({length: 25}, (_, i) => ({uri: `test://item/${i}`, name: `item${i}`}));
+	server.server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+		const start = Number(request.params?.cursor ?? 0);
+		const end = start + 10;
+		const cursor = nextCursor(end);
+		return cursor === undefined
+			? {resources: resources.slice(start, end)}
+			: {resources: resources.slice(start, end), nextCursor: cursor};
+	});
+
+	return createConnectedClient({}, server);
+}
+
+test('fromMcpClients follows nextCursor across pages', async () => {
+	const client = await createPaginatedClient();
+	const diagnostics: McpListDiagnostics[] = [];
+
+	const tools = await fromMcpClients({big: client}, {onListed: (d) => diagnostics.push(d)});
+
+	const resources = tools.filter((t) => t.name.startsWith('big__resource__'));
+	expect(resources).toHaveLength(25);
+	expect(resources.at(-1)?.name).toBe('big__resource__item24');
+	expect(diagnostics).toEqual([{prefix: 'big', resources: {fetched: 25, pages: 3, capped: false}}]);
+});
+
+test('fromMcpClients stops listing at maxListItems', async () => {
+	const client = await createPaginatedClient();
+	const diagnostics: McpListDiagnostics[] = [];
+
+	const tools = await fromMcpClients({big: client}, {maxListItems: 15, onListed: (d) => diagnostics.push(d)});
+
+	expect(tools.filter((t) => t.name.startsWith('big__resource__'))).toHaveLength(15);
+	expect(diagnostics).toEqual([{prefix: 'big', resources: {fetched: 15, pages: 2, capped: true}}]);
+});
+
+test('fromMcpClients stops listing at maxListPages', async () => {
+	const client = await createPaginatedClient();
+	const diagnostics: McpListDiagnostics[] = [];
+
+	await fromMcpClients({big: client}, {maxListPages: 2, onListed: (d) => diagnostics.push(d)});
+
+	expect(diagnostics).toEqual([{prefix: 'big', resources: {fetched: 20, pages: 2, capped: true}}]);
+});
+
+test('fromMcpClients stops listing when a server repeats a cursor or returns an empty page', async () => {
+	const repeating = await createPaginatedClient(() => '10');
+	const endless = await createPaginatedClient((end) => String(end));
+	const diagnostics: McpListDiagnostics[] = [];
+
+	await fromMcpClients({repeating}, {onListed: (d) => diagnostics.push(d)});
+	await fromMcpClients({endless}, {onListed: (d) => diagnostics.push(d)});
+
+	expect(diagnostics).toEqual([
+		{prefix: 'repeating', resources: {fetched: 20, pages: 2, capped: true}},
+		{prefix: 'endless', resources: {fetched: 25, pages: 4, capped: true}},
+	]);
+});
+
+/** Connect a client to a server whose tool listing fails, but whose prompts work */
+async function createFailingClient(): Promise<Client> {
+	const mcpServer = new McpServer({name: 'failing-server', version: '1.0.0'}, {capabilities: {tools: {}}});
+	mcpServer.registerPrompt('simple', {description: 'A simple prompt'}, async () => ({
+		messages: [{role: 'user' as const, content: {type: 'text' as const, text: 'Hello!'}}],
+	}));
+	mcpServer.server.setRequestHandler(ListToolsRequestSchema, async () => {
+		throw new McpError(ErrorCode.InvalidRequest, 'Unauthorized');
+	});
+
+	return createConnectedClient({}, mcpServer);
+}
+
+test('fromMcpClients reports listing failures', async () => {
+	const client = await createFailingClient();
+	const diagnostics: McpListDiagnostics[] = [];
+
+	const tools = await fromMcpClients({flaky: client}, {onListed: (d) => diagnostics.push(d)});
+
+	// Other lists still load, and only advertised lists are requested
+	expect(tools.map((t) => t.name)).toEqual(['flaky__prompt__simple']);
+	expect(diagnostics).toEqual([{
+		prefix: 'flaky',
+		prompts: {fetched: 1, pages: 1, capped: false},
+		errors: [{list: 'tools', error: expect.objectContaining({message: expect.stringContaining('Unauthorized')})}],
+	}]);
+});
+
+test('fromMcpClients reports clients that are not connected', async () => {
+	const client = new Client({name: 'test-client', version: '1.0.0'});
+	const diagnostics: McpListDiagnostics[] = [];
+
+	await expect(fromMcpClients({offline: client}, {onListed: (d) => diagnostics.push(d)})).resolves.toEqual([]);
+	expect(diagnostics).toEqual([{prefix: 'offline', errors: [{error: new Error('Client is not connected')}]}]);
+});
+
+test('fromMcpClients fails fast on required clients', async () => {
+	const working = await createConnectedClient();
+	const failing = await createFailingClient();
+
+	await expect(fromMcpClients({working, flaky: failing}, {required: ['working']})).resolves.not.toHaveLength(0);
+	await expect(fromMcpClients({working, flaky: failing}, {required: ['flaky']})).rejects.toThrow(/^MCP client flaky failed to list tools: .*Unauthorized/);
+	await expect(fromMcpClients({working, flaky: failing}, {required: true})).rejects.toThrow('MCP client flaky');
+});
+
+test('fromMcpClients reports advertised lists the server does not implement', async () => {
+	const server = new McpServer({name: 'unimplemented-server', version: '1.0.0'}, {capabilities: {tools: {}}});
+	const client = await createConnectedClient({}, server);
+	const diagnostics: McpListDiagnostics[] = [];
+
+	await fromMcpClients({broken: client}, {onListed: (d) => diagnostics.push(d)});
+
+	expect(diagnostics).toEqual([{
+		prefix: 'broken',
+		errors: [{list: 'tools', error: expect.objectContaining({message: expect.stringContaining('Method not found')})}],
+	}]);
+});
+
+/** Connect a client to a server whose tools return each kind of content */
+async function createContentClient(): Promise<Client> {
+	const server = new McpServer({name: 'content-server', version: '1.0.0'});
+	server.registerResource('config', 'test://config', {description: 'Configuration data'}, async () => ({
+		contents: [{uri: 'test://config', text: 'setting=value'}],
+	}));
+	server.registerTool('report', {description: 'Mixed content', inputSchema: {}}, async () => ({
+		content: [
+			{type: 'text' as const, text: 'Line 1'},
+			{type: 'text' as const, text: 'Line 2'},
+			{type: 'image' as const, data: 'aGk=', mimeType: 'image/png'},
+			{
+				type: 'resource_link' as const, uri: 'test://config', name: 'config', mimeType: 'text/plain',
+			},
+			{type: 'resource' as const, resource: {uri: 'test://notes', mimeType: 'text/plain', text: 'Notes'}},
+			{type: 'resource' as const, resource: {uri: 'test://file.pdf', mimeType: 'application/pdf', blob: 'JVBERi0='}},
+		],
+	}));
+	server.registerTool('invalid', {description: 'Fails with details', inputSchema: {}}, async () => ({
+		isError: true,
+		content: [
+			{type: 'text' as const, text: 'Bad input'},
+			{type: 'text' as const, text: 'Check field a'},
+			{type: 'image' as const, data: 'aGk=', mimeType: 'image/png'},
+		],
+		structuredContent: {field: 'a'},
+	}));
+
+	return createConnectedClient({}, server);
+}
+
+test('MCP tool content blocks are all mapped, with binary content as blobs', async () => {
+	const client = await createContentClient();
+	const sandbox = await createSandbox({tools: await fromMcpClients({content: client})});
+
+	const result = await sandbox.execute.handler({
+		code: `
+			const blocks = await tool('content__report', {});
+			const link = blocks[3];
+			return {blocks, linked: await tool(link.tool, {uri: link.uri})};
+		`,
+	});
+
+	expect(result.success).toBe(true);
+	expect(result.result).toEqual({
+		blocks: [
+			{type: 'text', text: 'Line 1'},
+			{type: 'text', text: 'Line 2'},
+			{type: 'blob_ref', id: expect.any(String), mimeType: 'image/png'},
+			{
+				type: 'resource_link', uri: 'test://config', name: 'config', mimeType: 'text/plain', tool: 'content__read_resource',
+			},
+			{
+				type: 'resource', uri: 'test://notes', mimeType: 'text/plain', text: 'Notes',
+			},
+			{
+				type: 'resource', uri: 'test://file.pdf', mimeType: 'application/pdf', blob: {type: 'blob_ref', id: expect.any(String), mimeType: 'application/pdf'},
+			},
+		],
+		linked: {contents: [{uri: 'test://config', text: 'setting=value'}]},
+	});
+	expect(result.blobs).toEqual([
+		{id: expect.any(String), data: 'aGk=', mimeType: 'image/png'},
+		{id: expect.any(String), data: 'JVBERi0=', mimeType: 'application/pdf'},
+	]);
+});
+
+test('MCP tool error results include all content and structuredContent', async () => {
+	const client = await createContentClient();
+	const tools = await fromMcpClients({content: client});
+	const invalid = tools.find((t) => t.name === 'content__invalid');
+
+	await expect(invalid?.handler({})).rejects.toMatchObject({
+		message: 'Bad input\nCheck field a\n{"field":"a"}',
+		content: [{type: 'text', text: 'Bad input'}, {type: 'text', text: 'Check field a'}, {type: 'image', data: 'aGk=', mimeType: 'image/png'}],
+		structuredContent: {field: 'a'},
+	});
+
+	const sandbox = await createSandbox({tools});
+	const result = await sandbox.execute.handler({
+		code: `
+			try {
+				await tool('content__invalid', {});
+			} catch (e) {
+				return {message: e.message, content: e.content, structuredContent: e.structuredContent};
+			}
+		`,
+	});
+	expect(result.result).toEqual({
+		message: 'Bad input\nCheck field a\n{"field":"a"}',
+		content: [
+			{type: 'text', text: 'Bad input'},
+			{type: 'text', text: 'Check field a'},
+			{type: 'blob_ref', id: expect.any(String), mimeType: 'image/png'},
+		],
+		structuredContent: {field: 'a'},
+	});
+	expect(result.blobs).toEqual([{id: expect.any(String), data: 'aGk=', mimeType: 'image/png'}]);
+});
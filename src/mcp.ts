@@ -1,19 +1,170 @@
 import type {Client} from '@modelcontextprotocol/sdk/client/index.js';
-import type {Tool, JsonSchema} from './types.js';
+import type {RequestOptions} from '@modelcontextprotocol/sdk/shared/protocol.js';
+import type {
+	ContentBlock, CreateMessageRequest, CreateMessageResult, ElicitRequest, ElicitResult, ListRootsResult,
+} from '@modelcontextprotocol/sdk/types.js';
+import type {
+	Sandbox, Tool, JsonSchema, ToolAnnotations, ToolCallContext,
+} from './types.js';
 
 /** MCP clients keyed by prefix */
 export type McpClients = Record<string, Client>;
 
-/** Extract content from MCP result, preferring structuredContent */
-function extractContent(result: unknown): unknown {
-	const r = result as {structuredContent?: unknown; content?: unknown[]; isError?: boolean};
+/** A tool() call to one of an MCP client's tools, prompts or resources */
+export type McpToolCall = {
+	callId: string;
+	executionId: string;
+	toolName: string;
+};
+
+/** Where a request from an MCP server came from */
+export type McpRequestContext = {
+	/** Key of the client the request was sent to */
+	prefix: string;
+	/**
+	 * tool() calls to this client in flight when the request arrived. MCP doesn't say which call
+	 * a request belongs to, so with several concurrent calls, any of them may have made it.
+	 */
+	calls: McpToolCall[];
+	/** The call that made the request, when only one was in flight */
+	call?: McpToolCall;
+	/** Aborted if the server cancels the request */
+	signal: AbortSignal;
+};
+
+/** How much of one list (tools, prompts, resources or resource templates) was fetched */
+export type McpListStats = {
+	/** Items fetched, across all pages */
+	fetched: number;
+	/** Pages requested */
+	pages: number;
+	/**
+	 * Whether later pages were not fetched: maxListItems or maxListPages was reached,
+	 * or the server returned an empty page or a cursor it had already returned
+	 */
+	capped: boolean;
+};
+
+/** Lists fetched from each MCP client */
+export type McpListName = 'tools' | 'prompts' | 'resources' | 'resourceTemplates';
+
+/** A list that could not be fetched from a client */
+export type McpListError = {
+	/** The list that failed, or missing if the whole client did (e.g. it isn't connected) */
+	list?: McpListName;
+	error: Error;
+};
+
+/**
+ * What was fetched from one client. Lists the server doesn't advertise in its capabilities are
+ * not requested, so are missing, as are lists that failed to fetch - these are in errors.
+ */
+export type McpListDiagnostics = {
+	prefix: string;
+	tools?: McpListStats;
+	prompts?: McpListStats;
+	resources?: McpListStats;
+	resourceTemplates?: McpListStats;
+	/** Lists that failed, e.g. from auth or network errors */
+	errors?: McpListError[];
+};
+
+/**
+ * Options for fromMcpClients. The request callbacks handle requests MCP servers make to the client:
+ * each client must have been created with the matching capability, e.g. new Client(info, {capabilities: {sampling: {}}}).
+ */
+export type McpClientOptions = {
+	/** Most items to fetch from each list, following nextCursor across pages (default: 10000) */
+	maxListItems?: number;
+	/** Most pages to fetch from each list (default: 1000) */
+	maxListPages?: number;
+	/** Called after each client's lists are fetched, with how many items each returned and any errors */
+	onListed?: (diagnostics: McpListDiagnostics) => void;
+	/**
+	 * Reject if listing these clients fails, rather than skipping the lists that failed:
+	 * true for every client, or the prefixes of required clients (default: none)
+	 */
+	required?: boolean | string[];
+	/** Handle sampling/createMessage: generate an LLM completion for the server */
+	onSampling?: (params: CreateMessageRequest['params'], context: McpRequestContext) => Promise<CreateMessageResult>;
+	/** Handle elicitation/create: ask the user for input or confirmation */
+	onElicitation?: (params: ElicitRequest['params'], context: McpRequestContext) => Promise<ElicitResult>;
+	/** Handle roots/list: tell the server which directories or files it may work with */
+	onListRoots?: (context: McpRequestContext) => Promise<ListRootsResult>;
+};
+
+/**
+ * Map an MCP content block to what sandbox code sees. Images, audio and blob resources keep
+ * the shapes extractBlobs recognises, so they reach the sandbox as blob refs.
+ */
+function mapContentBlock(block: ContentBlock, readResourceTool?: string): unknown {
+	switch (block.type) {
+		case 'text':
+			return {type: 'text', text: block.text};
+		case 'image':
+		case 'audio':
+			return {type: block.type, data: block.data, mimeType: block.mimeType};
+		case 'resource_link':
+			// Sandbox code can read the linked resource with tool(link.tool, {uri: link.uri})
+			return {
+				type: 'resource_link',
+				uri: block.uri,
+				name: block.name,
+				...(block.title === undefined ? {} : {title: block.title}),
+				...(block.description === undefined ? {} : {description: block.description}),
+				...(block.mimeType === undefined ? {} : {mimeType: block.mimeType}),
+				...(readResourceTool === undefined ? {} : {tool: readResourceTool}),
+			};
+		case 'resource': {
+			const {resource} = block;
+			const mimeType = resource.mimeType ?? undefined;
+			if ('text' in resource) {
+				return {
+					type: 'resource', uri: resource.uri, ...(mimeType === undefined ? {} : {mimeType}), text: resource.text,
+				};
+			}
+
+			return {
+				type: 'resource',
+				uri: resource.uri,
+				...(mimeType === undefined ? {} : {mimeType}),
+				blob: {blob: resource.blob, mimeType: mimeType ?? 'application/octet-stream'},
+			};
+		}
+	}
+}
+
+/** Parse text as JSON if it is JSON, else return it as is */
+function parseText(text: string): unknown {
+	try {
+		return JSON.parse(text) as unknown;
+	} catch {
+		return text;
+	}
+}
+
+/**
+ * Extract content from MCP result, preferring structuredContent. A lone text block is
+ * returned as its parsed JSON (or string); any other content as an array of mapped blocks.
+ * Error results throw with all text blocks (and structuredContent) in the message, and
+ * the mapped content and structuredContent as properties of the error.
+ */
+function extractContent(result: unknown, readResourceTool?: string): unknown {
+	const r = result as {structuredContent?: unknown; content?: ContentBlock[]; isError?: boolean; toolResult?: unknown};
+	const content = Array.isArray(r.content) ? r.content.map((block) => mapContentBlock(block, readResourceTool)) : undefined;
 
 	// Check for error response
 	if (r.isError) {
-		const errorText = Array.isArray(r.content) && r.content.length > 0
-			? (r.content[0] as {text?: string}).text || 'Unknown error'
-			: 'Unknown error';
-		throw new Error(errorText);
+		const texts = (r.content ?? []).flatMap((block) => (block.type === 'text' ? [block.text] : []));
+		if (r.structuredContent !== undefined) {
+			texts.push(JSON.stringify(r.structuredContent));
+		}
+
+		const error = new Error(texts.length > 0 ? texts.join('\n') : 'Unknown error');
+		throw Object.assign(error, {
+			content: content ?? [],
+			...(r.structuredContent === undefined ? {} : {structuredContent: r.structuredContent}),
+		});
 	}
 
 	// Prefer structuredContent if available
@@ -21,132 +172,297 @@ function extractContent(result: unknown): unknown {
 		return r.structuredContent;
 	}
 
-	// Fall back to extracting from content array
-	if (Array.isArray(r.content) && r.content.length > 0) {
-		const first = r.content[0] as {text?: string};
-		if (first && 'text' in first && typeof first.text === 'string') {
-			try {
-				return JSON.parse(first.text);
-			} catch {
-				return first.text;
-			}
-		}
+	if (!content) {
+		// Results from servers on the 2024-10-07 protocol have toolResult instead of content
+		return r.toolResult ?? result;
+	}
+
+	const [first] = r.content ?? [];
+	if (r.content?.length === 1 && first?.type === 'text') {
+		return parseText(first.text);
 	}
 
-	return r.content ?? result;
+	return content;
+}
+
+/** Forward the execution's AbortSignal (if any) to an MCP request */
+function requestOptions(signal?: AbortSignal): RequestOptions {
+	return signal ? {signal} : {};
+}
+
+/** Whether an error is a JSON-RPC "Method not found" response */
+function isMethodNotFound(error: unknown): boolean {
+	return (error as {code?: unknown} | undefined)?.code === -32_601;
+}
+
+/** Fetch every page of a list, up to maxItems items and maxPages pages */
+async function listAll<T>(fetchPage: (cursor?: string) => Promise<{items: T[]; nextCursor?: string | undefined}>, maxItems: number, maxPages: number): Promise<{items: T[]; stats: McpListStats}> {
+	const items: T[] = [];
+	const followed = new Set<string>();
+	let pages = 0;
+	let cursor: string | undefined;
+	let stalled = false;
+	do {
+		if (cursor !== undefined) {
+			followed.add(cursor);
+		}
+
+		// eslint-disable-next-line no-await-in-loop -- Each page needs the previous page's cursor
+		const page = await fetchPage(cursor);
+		pages += 1;
+		items.push(...page.items);
+		cursor = page.nextCursor;
+		// An empty page or a repeated cursor means the server would keep us listing forever
+		stalled = page.items.length === 0 || (cursor !== undefined && followed.has(cursor));
+	} while (cursor !== undefined && !stalled && items.length < maxItems && pages < maxPages);
+
+	// Stopping with a cursor left means there were more pages
+	const capped = cursor !== undefined || items.length > maxItems;
+	return {items: items.slice(0, maxItems), stats: {fetched: Math.min(items.length, maxItems), pages, capped}};
 }
 
 /** Process a single MCP client and return its tools */
-async function processClient(prefix: string, client: Client): Promise<Tool[]> {
+async function processClient(prefix: string, client: Client, options: McpClientOptions): Promise<Tool[]> {
 	const tools: Tool[] = [];
+	const errors: McpListError[] = [];
+	const diagnostics: McpListDiagnostics = {prefix};
+	const maxItems = options.maxListItems ?? 10_000;
+	const maxPages = options.maxListPages ?? 1000;
+	const cursorParams = (cursor?: string) => (cursor === undefined ? undefined : {cursor});
+	const capabilities = client.getServerCapabilities();
+	if (!capabilities) {
+		errors.push({error: new Error('Client is not connected')});
+	}
 
-	// Fetch tools
-	try {
-		const {tools: mcpTools} = await client.listTools();
-		for (const mcpTool of mcpTools) {
-			const tool: Tool = {
-				name: `${prefix}__${mcpTool.name}`,
-				inputSchema: mcpTool.inputSchema as Tool['inputSchema'],
-				async handler(args) {
-					const result = await client.callTool({
-						name: mcpTool.name,
-						arguments: args as Record<string, unknown>,
-					});
-					return extractContent(result);
-				},
-			};
-			if (mcpTool.title) {
-				tool.title = mcpTool.title;
-			}
+	// Tool for reading any resource by URI, e.g. from a resource_link in a tool result
+	const readResourceTool = capabilities?.resources ? `${prefix}__read_resource` : undefined;
 
-			if (mcpTool.description) {
-				tool.description = mcpTool.description;
-			}
+	// Fetch a list if the server advertises it, recording its stats or error
+	const list = async <T>(name: McpListName, advertised: unknown, fetchPage: (cursor?: string) => Promise<{items: T[]; nextCursor?: string | undefined}>): Promise<T[]> => {
+		if (!advertised) {
+			return [];
+		}
 
-			if (mcpTool.outputSchema) {
-				tool.outputSchema = mcpTool.outputSchema as JsonSchema;
+		try {
+			const {items, stats} = await listAll(fetchPage, maxItems, maxPages);
+			diagnostics[name] = stats;
+			return items;
+		} catch (error) {
+			// Servers may advertise resources without implementing resource templates
+			if (name !== 'resourceTemplates' || !isMethodNotFound(error)) {
+				errors.push({list: name, error: error instanceof Error ? error : new Error(String(error))});
 			}
 
-			tools.push(tool);
+			return [];
 		}
-	} catch {
-		// Client may not support tools
+	};
+
+	// Fetch tools
+	const mcpTools = await list('tools', capabilities?.tools, async (cursor) => {
+		const page = await client.listTools(cursorParams(cursor));
+		return {items: page.tools, nextCursor: page.nextCursor};
+	});
+	for (const mcpTool of mcpTools) {
+		const tool: Tool = {
+			name: `${prefix}__${mcpTool.name}`,
+			mcpPrefix: prefix,
+			inputSchema: mcpTool.inputSchema as Tool['inputSchema'],
+			async handler(args, signal) {
+				const result = await client.callTool({
+					name: mcpTool.name,
+					arguments: args as Record<string, unknown>,
+				}, undefined, requestOptions(signal));
+				return extractContent(result, readResourceTool);
+			},
+		};
+		if (mcpTool.title) {
+			tool.title = mcpTool.title;
+		}
+
+		if (mcpTool.description) {
+			tool.description = mcpTool.description;
+		}
+
+		if (mcpTool.outputSchema) {
+			tool.outputSchema = mcpTool.outputSchema as JsonSchema;
+		}
+
+		if (mcpTool.annotations) {
+			tool.annotations = mcpTool.annotations as ToolAnnotations;
+		}
+
+		tools.push(tool);
 	}
 
 	// Fetch prompts (with arguments for parameterized prompts)
-	try {
-		const {prompts} = await client.listPrompts();
-		for (const prompt of prompts) {
-			tools.push({
-				name: `${prefix}__prompt__${prompt.name}`,
-				description: prompt.description || `Get prompt: ${prompt.name}`,
-				inputSchema: {
-					type: 'object',
-					properties: Object.fromEntries((prompt.arguments || []).map((arg) => [
-						arg.name,
-						{type: 'string', description: arg.description},
-					])),
-					required: (prompt.arguments || []).filter((a) => a.required).map((a) => a.name),
-				},
-				async handler(args) {
-					return client.getPrompt({
-						name: prompt.name,
-						arguments: args as Record<string, string>,
-					});
-				},
-			});
-		}
-	} catch {
-		// Client may not support prompts
+	const prompts = await list('prompts', capabilities?.prompts, async (cursor) => {
+		const page = await client.listPrompts(cursorParams(cursor));
+		return {items: page.prompts, nextCursor: page.nextCursor};
+	});
+	for (const prompt of prompts) {
+		tools.push({
+			name: `${prefix}__prompt__${prompt.name}`,
+			mcpPrefix: prefix,
+			description: prompt.description || `Get prompt: ${prompt.name}`,
+			inputSchema: {
+				type: 'object',
+				properties: Object.fromEntries((prompt.arguments || []).map((arg) => [
+					arg.name,
+					{type: 'string', description: arg.description},
+				])),
+				required: (prompt.arguments || []).filter((a) => a.required).map((a) => a.name),
+			},
+			async handler(args, signal) {
+				return client.getPrompt({
+					name: prompt.name,
+					arguments: args as Record<string, string>,
+				}, requestOptions(signal));
+			},
+		});
 	}
 
 	// Fetch resources
-	try {
-		const {resources} = await client.listResources();
-		for (const resource of resources) {
-			tools.push({
-				name: `${prefix}__resource__${resource.name}`,
-				description: resource.description || `Read resource: ${resource.name}`,
-				inputSchema: {type: 'object', properties: {}},
-				async handler() {
-					return client.readResource({uri: resource.uri});
-				},
-			});
-		}
-	} catch {
-		// Client may not support resources
+	const resources = await list('resources', capabilities?.resources, async (cursor) => {
+		const page = await client.listResources(cursorParams(cursor));
+		return {items: page.resources, nextCursor: page.nextCursor};
+	});
+	for (const resource of resources) {
+		tools.push({
+			name: `${prefix}__resource__${resource.name}`,
+			mcpPrefix: prefix,
+			description: resource.description || `Read resource: ${resource.name}`,
+			inputSchema: {type: 'object', properties: {}},
+			async handler(_args, signal) {
+				return client.readResource({uri: resource.uri}, requestOptions(signal));
+			},
+		});
 	}
 
 	// Fetch resource templates (parameterized resources)
+	const resourceTemplates = await list('resourceTemplates', capabilities?.resources, async (cursor) => {
+		const page = await client.listResourceTemplates(cursorParams(cursor));
+		return {items: page.resourceTemplates, nextCursor: page.nextCursor};
+	});
+	for (const template of resourceTemplates) {
+		// Extract parameters from URI template (e.g., "file:///{path}" -> ["path"])
+		const params = [...template.uriTemplate.matchAll(/\{([^}]+)\}/g)].map((m) => m[1]).filter((p): p is string => p !== undefined);
+		tools.push({
+			name: `${prefix}__resource__${template.name}`,
+			mcpPrefix: prefix,
+			description: template.description || `Read resource: ${template.name}`,
+			inputSchema: {
+				type: 'object',
+				properties: Object.fromEntries(params.map((p) => [p, {type: 'string'}])),
+				required: params,
+			},
+			async handler(args, signal) {
+				// Substitute parameters into URI template
+				let uri = template.uriTemplate;
+				for (const [key, value] of Object.entries(args as Record<string, string>)) {
+					uri = uri.replace(`{${key}}`, encodeURIComponent(value));
+				}
+
+				return client.readResource({uri}, requestOptions(signal));
+			},
+		});
+	}
+
+	if (readResourceTool && !tools.some((t) => t.name === readResourceTool)) {
+		tools.push({
+			name: readResourceTool,
+			mcpPrefix: prefix,
+			description: 'Read a resource by URI, e.g. one linked from a tool result',
+			inputSchema: {
+				type: 'object',
+				properties: {uri: {type: 'string'}},
+				required: ['uri'],
+			},
+			async handler(args, signal) {
+				return client.readResource({uri: (args as {uri: string}).uri}, requestOptions(signal));
+			},
+		});
+	}
+
+	if (errors.length > 0) {
+		diagnostics.errors = errors;
+	}
+
+	options.onListed?.(diagnostics);
+	const required = options.required === true || (Array.isArray(options.required) && options.required.includes(prefix));
+	const [firstError] = errors;
+	if (required && firstError) {
+		const what = firstError.list ? `failed to list ${firstError.list}` : 'failed';
+		throw new Error(`MCP client ${prefix} ${what}: ${firstError.error.message}`, {cause: firstError.error});
+	}
+
+	return tools;
+}
+
+/** Wrap a tool's handler to track its calls as in flight, so server requests can be attributed to them */
+function trackCalls(tool: Tool, inFlight: Set<McpToolCall>): Tool {
+	const {handler} = tool;
+	return {
+		...tool,
+		async handler(args, signal, context?: ToolCallContext) {
+			if (!context) {
+				return handler(args, signal);
+			}
+
+			const call: McpToolCall = {callId: context.callId, executionId: context.executionId, toolName: tool.name};
+			inFlight.add(call);
+			try {
+				return await handler(args, signal, context);
+			} finally {
+				inFlight.delete(call);
+			}
+		},
+	};
+}
+
+/** Register the host's callbacks as request handlers on a client */
+async function registerRequestHandlers(prefix: string, client: Client, options: McpClientOptions, inFlight: Set<McpToolCall>): Promise<void> {
+	const {onSampling, onElicitation, onListRoots} = options;
+	// The SDK is only needed at runtime here, so it's imported lazily
+	const {CreateMessageRequestSchema, ElicitRequestSchema, ListRootsRequestSchema} = await import('@modelcontextprotocol/sdk/types.js');
+
+	const contextFor = (signal: AbortSignal): McpRequestContext => {
+		const calls = [...inFlight];
+		const [call] = calls;
+		if (calls.length === 1 && call) {
+			return {
+				prefix, calls, call, signal,
+			};
+		}
+
+		return {prefix, calls, signal};
+	};
+
 	try {
-		const {resourceTemplates} = await client.listResourceTemplates();
-		for (const template of resourceTemplates) {
-			// Extract parameters from URI template (e.g., "file:///{path}" -> ["path"])
-			const params = [...template.uriTemplate.matchAll(/\{([^}]+)\}/g)].map((m) => m[1]).filter((p): p is string => p !== undefined);
-			tools.push({
-				name: `${prefix}__resource__${template.name}`,
-				description: template.description || `Read resource: ${template.name}`,
-				inputSchema: {
-					type: 'object',
-					properties: Object.fromEntries(params.map((p) => [p, {type: 'string'}])),
-					required: params,
-				},
-				async handler(args) {
-					// Substitute parameters into URI template
-					let uri = template.uriTemplate;
-					for (const [key, value] of Object.entries(args as Record<string, string>)) {
-						uri = uri.replace(`{${key}}`, encodeURIComponent(value));
-					}
+		if (onSampling) {
+			client.setRequestHandler(CreateMessageRequestSchema, async (request, extra) => onSampling(request.params, contextFor(extra.signal)));
+		}
 
-					return client.readResource({uri});
-				},
-			});
+		if (onElicitation) {
+			client.setRequestHandler(ElicitRequestSchema, async (request, extra) => onElicitation(request.params, contextFor(extra.signal)));
 		}
-	} catch {
-		// Client may not support resource templates
+
+		if (onListRoots) {
+			client.setRequestHandler(ListRootsRequestSchema, async (_request, extra) => onListRoots(contextFor(extra.signal)));
+		}
+	} catch (error) {
+		throw new Error(`MCP client ${prefix}: ${error instanceof Error ? error.message : String(error)}`);
 	}
+}
 
-	return tools;
+/** Register request handlers if any callbacks are given, and return a function listing the client's tools */
+async function prepareClient(prefix: string, client: Client, options: McpClientOptions): Promise<() => Promise<Tool[]>> {
+	if (!options.onSampling && !options.onElicitation && !options.onListRoots) {
+		return async () => processClient(prefix, client, options);
+	}
+
+	const inFlight = new Set<McpToolCall>();
+	await registerRequestHandlers(prefix, client, options, inFlight);
+	return async () => (await processClient(prefix, client, options)).map((tool) => trackCalls(tool, inFlight));
 }
 
 /**
@@ -154,11 +470,154 @@ async function processClient(prefix: string, client: Client): Promise<Tool[]> {
  *
  * Fetches tools, prompts, resources, and resource templates from each client
  * and wraps them as Tool objects. Names are prefixed with the client key.
+ * Only lists the server advertises in its capabilities are fetched. Lists that fail
+ * are skipped and reported to onListed, unless the client is required.
  *
- * Supported: tools, prompts (with arguments), resources, resource templates.
- * Not supported: sampling, elicitation, roots, notifications.
+ * Supported: tools, prompts (with arguments), resources, resource templates, and
+ * sampling, elicitation and roots requests from servers (via options).
+ * Not supported: notifications (see bindMcpClients for list_changed).
  */
-export async function fromMcpClients(clients: McpClients): Promise<Tool[]> {
-	const results = await Promise.all(Object.entries(clients).map(async ([prefix, client]) => processClient(prefix, client)));
+export async function fromMcpClients(clients: McpClients, options: McpClientOptions = {}): Promise<Tool[]> {
+	const results = await Promise.all(Object.entries(clients).map(async ([prefix, client]) => {
+		const list = await prepareClient(prefix, client, options);
+		return list();
+	}));
 	return results.flat();
 }
+
+/** Options for bindMcpClients */
+export type McpBindingOptions = McpClientOptions & {
+	/** Called when refreshing a client's tools fails, e.g. on a name clash (default: console.warn) */
+	onRefreshError?: (error: unknown, prefix: string) => void;
+};
+
+/** Live binding of MCP clients to a sandbox, from bindMcpClients */
+export type McpBinding = {
+	/** Re-fetch every client's tools now, without waiting for a list_changed notification */
+	refresh(): Promise<void>;
+	/** Stop listening for list_changed notifications and remove the bound tools from the sandbox */
+	dispose(): void;
+};
+
+/** Everything about a tool but its handler (JSON drops functions), to detect changed definitions */
+function toolDefinition(tool: Tool): string {
+	return JSON.stringify(tool);
+}
+
+/**
+ * Add MCP clients' tools to a sandbox and keep them up to date.
+ *
+ * Like fromMcpClients, but listens for the servers' tools, prompts and resources list_changed
+ * notifications. On each, the client's lists are re-fetched and diffed against the sandbox:
+ * new tools are added, missing ones removed and changed ones replaced, which regenerates
+ * execute.description. Replaces any list_changed notification handlers already set on the clients.
+ */
+export async function bindMcpClients(sandbox: Sandbox, clients: McpClients, options: McpBindingOptions = {}): Promise<McpBinding> {
+	const {ToolListChangedNotificationSchema, PromptListChangedNotificationSchema, ResourceListChangedNotificationSchema} = await import('@modelcontextprotocol/sdk/types.js');
+	const onRefreshError = options.onRefreshError ?? ((error: unknown, prefix: string) => {
+		console.warn(`[tool-sandbox] Failed to refresh MCP client ${prefix}:`, error);
+	});
+	let disposed = false;
+
+	const settled = await Promise.allSettled(Object.entries(clients).map(async ([prefix, client]) => {
+		const list = await prepareClient(prefix, client, options);
+		// Definitions of the tools this binding added, by name
+		const current = new Map<string, string>();
+		// Refreshes run one at a time, so each diffs against the previous one's result
+		let queue: Promise<void> = Promise.resolve();
+
+		const apply = (tools: Tool[]) => {
+			const next = new Map(tools.map((tool) => [tool.name, tool]));
+			for (const [name, definition] of current) {
+				const tool = next.get(name);
+				if (tool && toolDefinition(tool) === definition) {
+					next.delete(name);
+					continue;
+				}
+
+				current.delete(name);
+				if (sandbox.tools.some((t) => t.name === name)) {
+					sandbox.removeTool(name);
+				}
+			}
+
+			for (const tool of next.values()) {
+				sandbox.addTool(tool);
+				current.set(tool.name, toolDefinition(tool));
+			}
+		};
+
+		const refresh = async () => {
+			const run = queue.then(async () => {
+				const tools = await list();
+				if (!disposed) {
+					apply(tools);
+				}
+			});
+			queue = run.catch(() => undefined);
+			return run;
+		};
+
+		const onListChanged = async () => {
+			await refresh().catch((error: unknown) => {
+				onRefreshError(error, prefix);
+			});
+		};
+
+		const binding = {
+			refresh,
+			dispose() {
+				client.removeNotificationHandler(ToolListChangedNotificationSchema.shape.method.value);
+				client.removeNotificationHandler(PromptListChangedNotificationSchema.shape.method.value);
+				client.removeNotificationHandler(ResourceListChangedNotificationSchema.shape.method.value);
+				for (const name of current.keys()) {
+					if (sandbox.tools.some((t) => t.name === name)) {
+						sandbox.removeTool(name);
+					}
+				}
+
+				current.clear();
+			},
+		};
+
+		try {
+			apply(await list());
+		} catch (error) {
+			// Remove any tools added before the failure
+			binding.dispose();
+			throw error;
+		}
+
+		client.setNotificationHandler(ToolListChangedNotificationSchema, onListChanged);
+		client.setNotificationHandler(PromptListChangedNotificationSchema, onListChanged);
+		client.setNotificationHandler(ResourceListChangedNotificationSchema, onListChanged);
+		return binding;
+	}));
+
+	// If any client fails to bind, unbind the others so the sandbox is left as it was
+	const bindings = settled.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+	const failure = settled.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+	if (failure) {
+		for (const binding of bindings) {
+			binding.dispose();
+		}
+
+		throw failure.reason instanceof Error ? failure.reason : new Error(String(failure.reason));
+	}
+
+	return {
+		async refresh() {
+			await Promise.all(bindings.map(async (binding) => binding.refresh()));
+		},
+		dispose() {
+			if (disposed) {
+				return;
+			}
+
+			disposed = true;
+			for (const binding of bindings) {
+				binding.dispose();
+			}
+		},
+	};
+}
@@ -0,0 +1,118 @@
+import {test, expect} from 'vitest';
+import {
+	trace, SpanStatusCode, type Context, type Span, type SpanOptions, type Tracer,
+} from '@opentelemetry/api';
+import {createSandbox, type Tool} from './index';
+import {createOpenTelemetryInstrumentation} from './otel';
+
+type RecordedSpan = {
+	name: string;
+	attributes: Record<string, unknown>;
+	parent: RecordedSpan | undefined;
+	status?: {code: SpanStatusCode; message?: string};
+	ended: boolean;
+};
+
+/** Minimal tracer recording spans, so tests don't need the OTel SDK */
+function createRecordingTracer(): {tracer: Tracer; spans: RecordedSpan[]} {
+	const spans: RecordedSpan[] = [];
+	const handles = new Map<Span, RecordedSpan>();
+
+	const tracer = {
+		startSpan(name: string, options?: SpanOptions, ctx?: Context) {
+			const parentHandle = ctx && trace.getSpan(ctx);
+			const recorded: RecordedSpan = {
+				name, attributes: {...options?.attributes}, parent: parentHandle && handles.get(parentHandle), ended: false,
+			};
+			spans.push(recorded);
+			const span = {
+				setAttribute(key: string, value: unknown) {
+					recorded.attributes[key] = value;
+					return span;
+				},
+				setStatus(status: {code: SpanStatusCode; message?: string}) {
+					recorded.status = status;
+					return span;
+				},
+				end() {
+					recorded.ended = true;
+				},
+				spanContext: () => ({traceId: '0'.repeat(32), spanId: '0'.repeat(16), traceFlags: 1}),
+				isRecording: () => true,
+			} as unknown as Span;
+			handles.set(span, recorded);
+			return span;
+		},
+	} as unknown as Tracer;
+
+	return {tracer, spans};
+}
+
+const echoTool: Tool = {
+	name: 'remote__echo',
+	mcpPrefix: 'remote',
+	description: 'Echo',
+	inputSchema: {type: 'object'},
+	handler: async (args) => args,
+};
+
+test('creates an execution span with child spans per tool call', async () => {
+	const {tracer, spans} = createRecordingTracer();
+	const sandbox = await createSandbox({tools: [echoTool], instrumentation: createOpenTelemetryInstrumentation({tracer})});
+
+	const result = await sandbox.execute.handler({
+		code: 'await tool("remote__echo", {msg: "hi"}); try { await tool("missing", {}); } catch {} return 1;',
+	});
+	expect(result.success).toBe(true);
+
+	const [execution, echo, missing] = spans;
+	expect(execution).toMatchObject({
+		name: 'tool-sandbox execute',
+		parent: undefined,
+		ended: true,
+		attributes: {'tool_sandbox.tool_calls': 2, 'tool_sandbox.success': true},
+	});
+	expect(execution!.attributes['tool_sandbox.execution_id']).toMatch(/^exec_/);
+
+	expect(echo).toMatchObject({
+		name: 'tool-sandbox tool remote__echo',
+		parent: execution,
+		ended: true,
+		attributes: {
+			'tool_sandbox.tool.name': 'remote__echo',
+			'tool_sandbox.tool.mcp_prefix': 'remote',
+			'tool_sandbox.tool.args_size': '{"msg":"hi"}'.length,
+			'tool_sandbox.tool.result_size': '{"msg":"hi"}'.length,
+			'tool_sandbox.tool.outcome': 'success',
+		},
+	});
+	expect(echo!.status).toBeUndefined();
+
+	expect(missing).toMatchObject({
+		parent: execution,
+		attributes: {'tool_sandbox.tool.outcome': 'error'},
+		status: {code: SpanStatusCode.ERROR, message: 'Tool not found: missing'},
+	});
+});
+
+test('marks failed executions and unfinished tool calls', async () => {
+	const {tracer, spans} = createRecordingTracer();
+	const sandbox = await createSandbox({tools: [], instrumentation: createOpenTelemetryInstrumentation({tracer, recordCode: true})});
+
+	const code = 'tool("sleep", {ms: 1000}); throw new Error("boom");';
+	await sandbox.execute.handler({code});
+
+	const [execution, sleep] = spans;
+	expect(execution).toMatchObject({
+		ended: true,
+		attributes: {'tool_sandbox.code': code, 'tool_sandbox.error_kind': 'runtime', 'tool_sandbox.success': false},
+		status: {code: SpanStatusCode.ERROR},
+	});
+	expect(sleep).toMatchObject({ended: true, attributes: {'tool_sandbox.tool.outcome': 'unfinished'}});
+});
+
+test('is a no-op without an OpenTelemetry SDK', async () => {
+	const sandbox = await createSandbox({tools: [echoTool], instrumentation: createOpenTelemetryInstrumentation()});
+	const result = await sandbox.execute.handler({code: 'return tool("remote__echo", {a: 1});'});
+	expect(result).toMatchObject({success: true, result: {a: 1}});
+});
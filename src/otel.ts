@@ -0,0 +1,83 @@
+import {
+	context, trace, SpanKind, SpanStatusCode, type Tracer,
+} from '@opentelemetry/api';
+import type {Instrumentation} from './types.js';
+
+/** Options for createOpenTelemetryInstrumentation */
+export type OpenTelemetryOptions = {
+	/** Tracer to create spans with (default: the global tracer provider's 'tool-sandbox' tracer) */
+	tracer?: Tracer;
+	/** Record the submitted code on execution spans as tool_sandbox.code (default: false) */
+	recordCode?: boolean;
+};
+
+/**
+ * Create instrumentation that records OpenTelemetry spans: one per execution,
+ * with a child span per tool() call. Pass it as the instrumentation option.
+ *
+ * Only uses @opentelemetry/api, so without a registered SDK it is a no-op.
+ * Tool handlers run in their call span's context, so spans they create
+ * (e.g. instrumented HTTP requests) nest underneath it.
+ */
+export function createOpenTelemetryInstrumentation(options: OpenTelemetryOptions = {}): Instrumentation {
+	return {
+		startExecution({executionId, code}) {
+			const tracer = options.tracer ?? trace.getTracer('tool-sandbox');
+			const span = tracer.startSpan('tool-sandbox execute', {
+				kind: SpanKind.INTERNAL,
+				attributes: {
+					'tool_sandbox.execution_id': executionId,
+					'tool_sandbox.code_length': code.length,
+					...(options.recordCode ? {'tool_sandbox.code': code} : {}),
+				},
+			});
+			const executionContext = trace.setSpan(context.active(), span);
+			let toolCalls = 0;
+
+			return {
+				startToolCall({callId, toolName, tool, argsSize}) {
+					toolCalls += 1;
+					const toolSpan = tracer.startSpan(`tool-sandbox tool ${toolName}`, {
+						kind: SpanKind.INTERNAL,
+						attributes: {
+							'tool_sandbox.tool.name': toolName,
+							'tool_sandbox.tool.call_id': callId,
+							'tool_sandbox.tool.args_size': argsSize,
+							...(tool?.mcpPrefix ? {'tool_sandbox.tool.mcp_prefix': tool.mcpPrefix} : {}),
+						},
+					}, executionContext);
+					const toolContext = trace.setSpan(executionContext, toolSpan);
+
+					return {
+						run: (fn) => context.with(toolContext, fn),
+						end({outcome, resultSize, error}) {
+							toolSpan.setAttribute('tool_sandbox.tool.outcome', outcome);
+							if (resultSize !== undefined) {
+								toolSpan.setAttribute('tool_sandbox.tool.result_size', resultSize);
+							}
+
+							if (error !== undefined) {
+								toolSpan.setStatus({code: SpanStatusCode.ERROR, message: error});
+							}
+
+							toolSpan.end();
+						},
+					};
+				},
+				end(result) {
+					span.setAttribute('tool_sandbox.tool_calls', toolCalls);
+					span.setAttribute('tool_sandbox.success', result.success);
+					if (result.errorDetails) {
+						span.setAttribute('tool_sandbox.error_kind', result.errorDetails.kind);
+					}
+
+					if (!result.success) {
+						span.setStatus({code: SpanStatusCode.ERROR, message: result.error ?? 'Execution failed'});
+					}
+
+					span.end();
+				},
+			};
+		},
+	};
+}
@@ -0,0 +1,150 @@
+import {test, expect} from 'vitest';
+import {evaluatePolicy, isToolDenied} from './policy';
+import {createSandbox, type Tool} from './index';
+
+const tool = (name: string, annotations?: Tool['annotations']): Tool => ({
+	name,
+	inputSchema: {type: 'object'},
+	...(annotations ? {annotations} : {}),
+	handler: async () => null,
+});
+
+const addTool: Tool = {
+	name: 'add',
+	description: 'Add two numbers',
+	inputSchema: {type: 'object', properties: {a: {type: 'number'}, b: {type: 'number'}}},
+	async handler(args) {
+		const {a, b} = args as {a: number; b: number};
+		return a + b;
+	},
+};
+
+const echoTool: Tool = {
+	name: 'echo',
+	description: 'Echo back the input',
+	inputSchema: {type: 'object', properties: {message: {type: 'string'}}},
+	async handler(args) {
+		return {echoed: (args as {message: string}).message};
+	},
+};
+
+test('matches tool name globs', () => {
+	const policy = {rules: [{effect: 'deny' as const, tools: ['gmail__*', 'slack__post?']}]};
+
+	expect(evaluatePolicy(policy, tool('gmail__send'), {})).toEqual({effect: 'deny', ruleIndex: 0});
+	expect(evaluatePolicy(policy, tool('slack__posts'), {})).toEqual({effect: 'deny', ruleIndex: 0});
+	expect(evaluatePolicy(policy, tool('slack__post'), {})).toEqual({effect: 'allow'});
+	expect(evaluatePolicy(policy, tool('xgmail__send'), {})).toEqual({effect: 'allow'});
+	expect(evaluatePolicy({rules: [{effect: 'deny', tools: 'a.b'}]}, tool('axb'), {})).toEqual({effect: 'allow'});
+});
+
+test('matches annotations using MCP defaults', () => {
+	const policy = {rules: [{effect: 'ask' as const, annotations: {destructiveHint: true}}]};
+
+	expect(evaluatePolicy(policy, tool('unannotated'), {}).effect).toBe('ask');
+	expect(evaluatePolicy(policy, tool('reader', {readOnlyHint: true, destructiveHint: true}), {}).effect).toBe('allow');
+	expect(evaluatePolicy(policy, tool('additive', {destructiveHint: false}), {}).effect).toBe('allow');
+	expect(evaluatePolicy({rules: [{effect: 'deny', annotations: {openWorldHint: true}}]}, tool('web'), {}).effect).toBe('deny');
+});
+
+test('first matching rule wins, then the default applies', () => {
+	const policy = {
+		rules: [
+			{effect: 'allow' as const, tools: 'fs__*', when: (args: unknown) => (args as {path: string}).path.startsWith('/tmp/')},
+			{effect: 'deny' as const, tools: 'fs__*', reason: 'outside /tmp'},
+		],
+		default: 'ask' as const,
+	};
+
+	expect(evaluatePolicy(policy, tool('fs__write'), {path: '/tmp/a'})).toEqual({effect: 'allow', ruleIndex: 0});
+	expect(evaluatePolicy(policy, tool('fs__write'), {path: '/etc/a'})).toEqual({effect: 'deny', ruleIndex: 1, reason: 'outside /tmp'});
+	expect(evaluatePolicy(policy, tool('other'), {})).toEqual({effect: 'ask'});
+});
+
+test('a tool is denied only if no args could reach a non-deny effect', () => {
+	expect(isToolDenied({rules: [{effect: 'deny', tools: 'a'}]}, tool('a'))).toBe(true);
+	expect(isToolDenied({rules: [{effect: 'deny', tools: 'a', when: () => true}]}, tool('a'))).toBe(false);
+	expect(isToolDenied({rules: [{effect: 'deny', tools: 'a', when: () => true}], default: 'deny'}, tool('a'))).toBe(true);
+	expect(isToolDenied({rules: [{effect: 'allow', tools: 'a', when: () => false}], default: 'deny'}, tool('a'))).toBe(false);
+	expect(isToolDenied({rules: [], default: 'deny'}, tool('b'))).toBe(true);
+	expect(isToolDenied({rules: [{effect: 'ask', tools: 'b'}], default: 'deny'}, tool('b'))).toBe(false);
+});
+
+test('policy denies matching tool calls and logs each decision', async () => {
+	const sandbox = await createSandbox({
+		tools: [addTool, {...echoTool, annotations: {readOnlyHint: true}}],
+		policy: {
+			rules: [
+				{effect: 'allow', annotations: {readOnlyHint: true}},
+				{effect: 'deny', tools: 'ad?', reason: 'no maths'},
+			],
+		},
+	});
+
+	const result = await sandbox.execute.handler({
+		code: 'await tool("echo", {message: "hi"}); return await tool("add", {a: 1, b: 2});',
+	});
+
+	expect(result.success).toBe(false);
+	expect(result.error).toContain('Tool call add was denied by policy: no maths');
+	expect(result.policyDecisions).toEqual([
+		{
+			callId: expect.any(String), toolName: 'echo', args: {message: 'hi'}, effect: 'allow', ruleIndex: 0,
+		},
+		{
+			callId: expect.any(String), toolName: 'add', args: {a: 1, b: 2}, effect: 'deny', ruleIndex: 1, reason: 'no maths',
+		},
+	]);
+});
+
+test('policy argument predicates see args after onBeforeToolCall', async () => {
+	const sandbox = await createSandbox({
+		tools: [addTool],
+		onBeforeToolCall(event) {
+			event.args = {a: 100, b: 1};
+		},
+		policy: {
+			rules: [{effect: 'deny', tools: 'add', when: (args) => (args as {a: number}).a > 10}],
+		},
+	});
+
+	const result = await sandbox.execute.handler({code: 'return await tool("add", {a: 1, b: 2});'});
+	expect(result.error).toContain('Tool call add was denied by policy');
+});
+
+test('policy ask pauses the call for approval', async () => {
+	const sandbox = await createSandbox({
+		tools: [addTool],
+		policy: {rules: [], default: 'ask'},
+	});
+
+	const pending = await sandbox.execute.handler({code: 'return await tool("add", {a: 1, b: 2});'});
+	expect(pending).toMatchObject({status: 'pending_approval', approval: {toolName: 'add'}});
+
+	const result = await sandbox.resolveApproval(pending.approval!.id, 'approved');
+	expect(result).toMatchObject({success: true, result: 3, policyDecisions: [{toolName: 'add', effect: 'ask'}]});
+});
+
+test('policy hides always-denied tools but not built-ins', async () => {
+	const sandbox = await createSandbox({
+		tools: [addTool, echoTool],
+		policy: {rules: [{effect: 'allow', tools: 'echo'}], default: 'deny'},
+	});
+
+	expect(sandbox.execute.description).toContain('Available tools: echo, describe_tool, list_tools, sleep, get_blob');
+
+	const result = await sandbox.execute.handler({
+		code: 'return [await tool("list_tools", {}), await tool("describe_tool", {name: "add"})];',
+	});
+	expect(result.result).toEqual([
+		[
+			{name: 'echo', description: 'Echo back the input'},
+			{name: 'describe_tool', description: 'Get a tool\'s schema by name'},
+			{name: 'list_tools', description: 'List all available tools. Returns an array of {name, description} objects.'},
+			{name: 'sleep', description: 'Wait for the specified number of milliseconds'},
+			{name: 'get_blob', description: expect.any(String)},
+		],
+		{error: 'Tool not found: add'},
+	]);
+	expect(result.policyDecisions).toBeUndefined();
+});
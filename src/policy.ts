@@ -0,0 +1,90 @@
+import type {
+	Policy, PolicyEffect, PolicyRule, Tool,
+} from './types.js';
+
+/** Outcome of evaluating a policy for one call */
+export type PolicyMatch = {
+	effect: PolicyEffect;
+	ruleIndex?: number;
+	reason?: string;
+};
+
+/** Compile a tool name glob (* and ?) to a RegExp */
+export function globToRegExp(glob: string): RegExp {
+	const source = glob.replaceAll(/[.+^${}()|[\]\\*?]/g, (char) => {
+		switch (char) {
+			case '*':
+				return '.*';
+			case '?':
+				return '.';
+			default:
+				return `\\${char}`;
+		}
+	});
+	return new RegExp(`^${source}$`);
+}
+
+/** Effective annotation values, applying MCP defaults */
+export function effectiveAnnotations(tool: Tool): Record<'readOnlyHint' | 'destructiveHint' | 'idempotentHint' | 'openWorldHint', boolean> {
+	const annotations = tool.annotations ?? {};
+	const readOnlyHint = annotations.readOnlyHint ?? false;
+	return {
+		readOnlyHint,
+		// Destructive and idempotent only apply to tools that modify their environment
+		destructiveHint: !readOnlyHint && (annotations.destructiveHint ?? true),
+		idempotentHint: readOnlyHint || (annotations.idempotentHint ?? false),
+		openWorldHint: annotations.openWorldHint ?? true,
+	};
+}
+
+/** Whether a rule's name and annotation conditions match a tool (ignores when) */
+function matchesTool(rule: PolicyRule, tool: Tool): boolean {
+	if (rule.tools !== undefined) {
+		const globs = Array.isArray(rule.tools) ? rule.tools : [rule.tools];
+		if (!globs.some((glob) => globToRegExp(glob).test(tool.name))) {
+			return false;
+		}
+	}
+
+	if (rule.annotations) {
+		const actual = effectiveAnnotations(tool);
+		for (const [key, value] of Object.entries(rule.annotations)) {
+			if (actual[key as keyof typeof actual] !== value) {
+				return false;
+			}
+		}
+	}
+
+	return true;
+}
+
+/** Find the effect of the first rule matching a call */
+export function evaluatePolicy(policy: Policy, tool: Tool, args: unknown): PolicyMatch {
+	for (const [ruleIndex, rule] of policy.rules.entries()) {
+		if (matchesTool(rule, tool) && (!rule.when || rule.when(args, tool))) {
+			return rule.reason === undefined ? {effect: rule.effect, ruleIndex} : {effect: rule.effect, ruleIndex, reason: rule.reason};
+		}
+	}
+
+	return {effect: policy.default ?? 'allow'};
+}
+
+/** Whether every call to a tool is denied, whatever its args */
+export function isToolDenied(policy: Policy, tool: Tool): boolean {
+	for (const rule of policy.rules) {
+		if (!matchesTool(rule, tool)) {
+			continue;
+		}
+
+		if (rule.effect !== 'deny') {
+			return false;
+		}
+
+		// A conditional deny may not match, so the decision falls to later rules
+		if (!rule.when) {
+			return true;
+		}
+	}
+
+	return (policy.default ?? 'allow') === 'deny';
+}
@@ -51,7 +51,8 @@ function wrapCodeBlock(code: string, index: number): string {
 	// Replace tool-sandbox imports with local imports
 	const processedCode = code
 		.replace(/from ['"]tool-sandbox['"]/g, 'from \'../src/index.js\'')
-		.replace(/from ['"]tool-sandbox\/mcp['"]/g, 'from \'../src/mcp.js\'');
+		.replace(/from ['"]tool-sandbox\/mcp['"]/g, 'from \'../src/mcp.js\'')
+		.replace(/from ['"]tool-sandbox\/otel['"]/g, 'from \'../src/otel.js\'');
 
 	// Wrap in async IIFE if using top-level await
 	const hasTopLevelAwait = /^(?!.*(?:async\s+function|async\s*\()).*\bawait\b/m.test(processedCode);
@@ -62,7 +63,7 @@ function wrapCodeBlock(code: string, index: number): string {
 	return `// README example block ${index + 1}\n// @ts-nocheck - external SDK types not available\n${wrappedCode}`;
 }
 
-test('README TypeScript examples typecheck', () => {
+test('README TypeScript examples typecheck', {timeout: 30_000}, () => {
 	const readme = readFileSync(README_PATH, 'utf-8');
 	const blocks = extractTypeScriptBlocks(readme);
 
@@ -0,0 +1,177 @@
+import {getEventListeners} from 'node:events';
+import {test, expect, vi} from 'vitest';
+import {
+	retryPolicyFor, shouldRetry, retryDelay, waitForRetry,
+} from './retry';
+import {
+	createSandbox, type Tool, type ToolCallErrorEvent, type ToolCallSuccessEvent,
+} from './index';
+
+/** Tool failing the first `failures` calls */
+const flakyTool = (failures: number, annotations?: Tool['annotations']) => {
+	const handler = vi.fn(async () => {
+		const call = handler.mock.calls.length;
+		if (call <= failures) {
+			throw new Error(`Upstream unavailable (${call})`);
+		}
+
+		return 'ok';
+	});
+	return {
+		name: 'flaky', inputSchema: {type: 'object' as const}, ...(annotations ? {annotations} : {}), handler,
+	};
+};
+
+test('tool retry policy is merged over the sandbox one', () => {
+	const tool = flakyTool(0);
+
+	expect(retryPolicyFor(tool, undefined)).toBeUndefined();
+	expect(retryPolicyFor(tool, {maxAttempts: 5})).toEqual({maxAttempts: 5});
+	expect(retryPolicyFor({...tool, retry: {initialDelayMs: 1}}, {maxAttempts: 5})).toEqual({maxAttempts: 5, initialDelayMs: 1});
+	expect(retryPolicyFor({...tool, retry: false}, {maxAttempts: 5})).toBeUndefined();
+});
+
+test('only idempotent or read-only tools are retried by default', () => {
+	const error = new Error('x');
+
+	expect(shouldRetry({}, flakyTool(0), error, 1)).toBe(false);
+	expect(shouldRetry({}, flakyTool(0, {idempotentHint: true}), error, 1)).toBe(true);
+	expect(shouldRetry({}, flakyTool(0, {readOnlyHint: true}), error, 1)).toBe(true);
+	expect(shouldRetry({retryNonIdempotent: true}, flakyTool(0), error, 1)).toBe(true);
+	expect(shouldRetry({maxAttempts: 2}, flakyTool(0, {readOnlyHint: true}), error, 2)).toBe(false);
+	expect(shouldRetry({retryable: (e) => e.message !== 'x'}, flakyTool(0, {readOnlyHint: true}), error, 1)).toBe(false);
+});
+
+test('retry delays back off exponentially up to the max, with jitter', () => {
+	vi.spyOn(Math, 'random').mockReturnValue(0.5);
+	try {
+		expect(retryDelay({initialDelayMs: 100, jitter: 0}, 1)).toBe(100);
+		expect(retryDelay({initialDelayMs: 100, jitter: 0}, 3)).toBe(400);
+		expect(retryDelay({initialDelayMs: 100, maxDelayMs: 300, jitter: 0}, 3)).toBe(300);
+		expect(retryDelay({initialDelayMs: 100, jitter: 0.5}, 1)).toBe(75);
+	} finally {
+		vi.restoreAllMocks();
+	}
+});
+
+test('waiting for a retry removes its abort listener', async () => {
+	const controller = new AbortController();
+
+	await waitForRetry(1, controller.signal);
+
+	expect(getEventListeners(controller.signal, 'abort')).toHaveLength(0);
+});
+
+test('retries transient failures, firing hooks for every attempt', async () => {
+	const tool = flakyTool(2, {idempotentHint: true});
+	const errors: ToolCallErrorEvent[] = [];
+	let success: ToolCallSuccessEvent | undefined;
+	const sandbox = await createSandbox({
+		tools: [tool],
+		retry: {initialDelayMs: 1},
+		trace: true,
+		onToolCallError(event) {
+			errors.push(event);
+		},
+		onToolCallSuccess(event) {
+			success = event;
+		},
+	});
+
+	const result = await sandbox.execute.handler({code: 'return tool("flaky", {});'});
+
+	expect(result).toMatchObject({success: true, result: 'ok'});
+	expect(tool.handler).toHaveBeenCalledTimes(3);
+	expect(errors.map((e) => [e.attempt, e.willRetry, e.error.message])).toEqual([
+		[1, true, 'Upstream unavailable (1)'],
+		[2, true, 'Upstream unavailable (2)'],
+	]);
+	expect(success?.attempt).toBe(3);
+	expect(result.trace?.toolCalls[0]?.attempts).toBe(3);
+});
+
+test('gives up after maxAttempts with the last error', async () => {
+	const tool = flakyTool(5, {readOnlyHint: true});
+	const sandbox = await createSandbox({tools: [tool], retry: {maxAttempts: 2, initialDelayMs: 1}});
+
+	const result = await sandbox.execute.handler({code: 'return tool("flaky", {});'});
+
+	expect(result.error).toContain('Upstream unavailable (2)');
+	expect(tool.handler).toHaveBeenCalledTimes(2);
+});
+
+test('does not retry tools that are not idempotent by default', async () => {
+	const tool = flakyTool(1);
+	const willRetry: boolean[] = [];
+	const sandbox = await createSandbox({
+		tools: [tool],
+		retry: {initialDelayMs: 1},
+		onToolCallError(event) {
+			willRetry.push(event.willRetry);
+		},
+	});
+
+	const result = await sandbox.execute.handler({code: 'return tool("flaky", {});'});
+
+	expect(result.success).toBe(false);
+	expect(tool.handler).toHaveBeenCalledTimes(1);
+	expect(willRetry).toEqual([false]);
+});
+
+test('onToolCallError can stop or force retries', async () => {
+	const stopped = flakyTool(5, {idempotentHint: true});
+	const stopSandbox = await createSandbox({
+		tools: [stopped],
+		retry: {initialDelayMs: 1},
+		onToolCallError(event) {
+			event.willRetry = false;
+		},
+	});
+	await stopSandbox.execute.handler({code: 'return tool("flaky", {});'});
+	expect(stopped.handler).toHaveBeenCalledTimes(1);
+
+	const forced = flakyTool(1);
+	const forceSandbox = await createSandbox({
+		tools: [forced],
+		onToolCallError(event) {
+			event.willRetry = event.attempt < 2;
+		},
+	});
+	expect(await forceSandbox.execute.handler({code: 'return tool("flaky", {});'})).toMatchObject({success: true, result: 'ok'});
+	expect(forced.handler).toHaveBeenCalledTimes(2);
+});
+
+test('forced retries stop at maxAttempts', async () => {
+	const tool = flakyTool(10);
+	const sandbox = await createSandbox({
+		tools: [tool],
+		retry: {maxAttempts: 3, initialDelayMs: 1},
+		onToolCallError(event) {
+			event.willRetry = true;
+		},
+	});
+
+	const result = await sandbox.execute.handler({code: 'return tool("flaky", {});'});
+
+	expect(result.error).toContain('Upstream unavailable (3)');
+	expect(tool.handler).toHaveBeenCalledTimes(3);
+});
+
+test('a handler that succeeded is not called again when a later step fails', async () => {
+	const tool = flakyTool(0);
+	const sandbox = await createSandbox({
+		tools: [tool],
+		retry: {initialDelayMs: 1, retryNonIdempotent: true},
+		onToolCallSuccess() {
+			throw new Error('Hook failed');
+		},
+		onToolCallError(event) {
+			event.willRetry = true;
+		},
+	});
+
+	const result = await sandbox.execute.handler({code: 'return tool("flaky", {});'});
+
+	expect(result.error).toContain('Hook failed');
+	expect(tool.handler).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,63 @@
+import {effectiveAnnotations} from './policy.js';
+import type {RetryPolicy, Tool} from './types.js';
+
+/** Defaults for RetryPolicy fields */
+const DEFAULT_RETRY = {
+	maxAttempts: 3,
+	initialDelayMs: 100,
+	maxDelayMs: 5000,
+	jitter: 0.5,
+};
+
+/** The retry policy for a tool: its own merged over the sandbox's, or undefined if it is not retried */
+export function retryPolicyFor(tool: Tool, sandboxPolicy: RetryPolicy | undefined): RetryPolicy | undefined {
+	if (tool.retry === false || (!tool.retry && !sandboxPolicy)) {
+		return undefined;
+	}
+
+	return {...sandboxPolicy, ...tool.retry};
+}
+
+/** Most handler attempts a call gets, including the first, even if onToolCallError asks for more */
+export function maxAttemptsFor(policy: RetryPolicy | undefined): number {
+	return policy?.maxAttempts ?? DEFAULT_RETRY.maxAttempts;
+}
+
+/** Whether a failed attempt should be retried */
+export function shouldRetry(policy: RetryPolicy | undefined, tool: Tool, error: Error, attempt: number): boolean {
+	if (!policy || attempt >= maxAttemptsFor(policy)) {
+		return false;
+	}
+
+	// Retrying a call that may have partly happened could repeat its side effects
+	if (!policy.retryNonIdempotent && !effectiveAnnotations(tool).idempotentHint) {
+		return false;
+	}
+
+	return policy.retryable?.(error, attempt) ?? true;
+}
+
+/** Delay before the retry following an attempt: exponential backoff, reduced by a random jitter */
+export function retryDelay(policy: RetryPolicy | undefined, attempt: number): number {
+	const initialDelayMs = policy?.initialDelayMs ?? DEFAULT_RETRY.initialDelayMs;
+	const maxDelayMs = policy?.maxDelayMs ?? DEFAULT_RETRY.maxDelayMs;
+	const jitter = policy?.jitter ?? DEFAULT_RETRY.jitter;
+	const delay = Math.min(maxDelayMs, initialDelayMs * (2 ** (attempt - 1)));
+	return Math.round(delay * (1 - (jitter * Math.random())));
+}
+
+/** Wait before a retry, returning early if the signal aborts */
+export async function waitForRetry(ms: number, signal?: AbortSignal): Promise<void> {
+	await new Promise<void>((resolve) => {
+		const onAbort = () => {
+			clearTimeout(timer);
+			resolve();
+		};
+
+		const timer = setTimeout(() => {
+			signal?.removeEventListener('abort', onAbort);
+			resolve();
+		}, ms);
+		signal?.addEventListener('abort', onAbort, {once: true});
+	});
+}
@@ -0,0 +1,98 @@
+import {test, expect} from 'vitest';
+import {validateJsonSchema, formatViolations, coerceToSchema} from './schema';
+
+test('accepts values matching the schema', () => {
+	const schema = {
+		type: 'object',
+		properties: {
+			name: {type: 'string'},
+			age: {type: 'integer'},
+			tags: {type: 'array', items: {type: 'string'}},
+			role: {enum: ['admin', 'user']},
+		},
+		required: ['name'],
+		additionalProperties: false,
+	};
+
+	expect(validateJsonSchema({
+		name: 'Alice', age: 30, tags: ['a'], role: 'admin',
+	}, schema)).toEqual([]);
+});
+
+test('reports type mismatches with their path', () => {
+	const schema = {
+		type: 'object',
+		properties: {users: {type: 'array', items: {type: 'object', properties: {email: {type: 'string'}}}}},
+	};
+
+	expect(validateJsonSchema({users: [{email: 'a@b.c'}, {email: 5}]}, schema)).toEqual([
+		{path: 'args.users[1].email', message: 'must be string, got number', schema: {type: 'string'}},
+	]);
+});
+
+test('reports missing required and disallowed additional properties', () => {
+	const schema = {
+		type: 'object',
+		properties: {to: {type: 'string'}},
+		required: ['to'],
+		additionalProperties: false,
+	};
+
+	expect(validateJsonSchema({recipient: 'x'}, schema).map((v) => `${v.path} ${v.message}`)).toEqual([
+		'args.to is required',
+		'args.recipient is not an allowed property',
+	]);
+});
+
+test('validates additionalProperties schemas', () => {
+	const schema = {type: 'object', additionalProperties: {type: 'number'}};
+	expect(validateJsonSchema({a: 1, 'b-c': 'x'}, schema).map((v) => v.path)).toEqual(['args["b-c"]']);
+});
+
+test('distinguishes integer from number and supports type arrays', () => {
+	expect(validateJsonSchema(1.5, {type: 'integer'})).toHaveLength(1);
+	expect(validateJsonSchema(1.5, {type: 'number'})).toEqual([]);
+	expect(validateJsonSchema(null, {type: ['string', 'null']})).toEqual([]);
+});
+
+test('checks enum and const', () => {
+	expect(validateJsonSchema('c', {enum: ['a', 'b']})[0]?.message).toBe('must be one of "a", "b"');
+	expect(validateJsonSchema({x: 1}, {const: {x: 1}})).toEqual([]);
+});
+
+test('checks known formats and ignores unknown ones', () => {
+	expect(validateJsonSchema('2024-01-02T03:04:05Z', {type: 'string', format: 'date-time'})).toEqual([]);
+	expect(validateJsonSchema('yesterday', {type: 'string', format: 'date'})[0]?.message).toBe('must be a valid date');
+	expect(validateJsonSchema('not an email', {type: 'string', format: 'email'})).toHaveLength(1);
+	expect(validateJsonSchema('anything', {type: 'string', format: 'custom'})).toEqual([]);
+});
+
+test('formatViolations includes the expected schema snippet', () => {
+	expect(formatViolations('Invalid arguments for tool add', [
+		{path: 'args.a', message: 'must be number, got string', schema: {type: 'number'}},
+	])).toBe('Invalid arguments for tool add: args.a must be number, got string (expected schema: {"type":"number"})');
+});
+
+test('coerceToSchema converts scalars and drops disallowed properties', () => {
+	const schema = {
+		type: 'object',
+		properties: {
+			count: {type: 'integer'},
+			label: {type: 'string'},
+			enabled: {type: 'boolean'},
+			ids: {type: 'array', items: {type: 'number'}},
+		},
+		additionalProperties: false,
+	};
+
+	expect(coerceToSchema({
+		count: '3', label: 7, enabled: 'false', ids: '5', extra: true,
+	}, schema)).toEqual({
+		count: 3, label: '7', enabled: false, ids: [5],
+	});
+});
+
+test('coerceToSchema leaves values it cannot convert', () => {
+	expect(coerceToSchema('abc', {type: 'number'})).toBe('abc');
+	expect(coerceToSchema(null, {type: 'array'})).toBe(null);
+});
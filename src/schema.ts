@@ -0,0 +1,220 @@
+import type {SchemaViolation} from './types.js';
+
+/** Patterns for the supported string formats. Unknown formats always pass. */
+const FORMATS: Record<string, RegExp> = {
+	'date-time': /^\d{4}-\d{2}-\d{2}[Tt ]\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})$/,
+	date: /^\d{4}-\d{2}-\d{2}$/,
+	time: /^\d{2}:\d{2}:\d{2}(\.\d+)?([Zz]|[+-]\d{2}:\d{2})?$/,
+	email: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+	uri: /^[a-zA-Z][a-zA-Z\d+.-]*:\S*$/,
+	uuid: /^[\da-fA-F]{8}-[\da-fA-F]{4}-[\da-fA-F]{4}-[\da-fA-F]{4}-[\da-fA-F]{12}$/,
+	ipv4: /^((25[0-5]|2[0-4]\d|1?\d?\d)\.){3}(25[0-5]|2[0-4]\d|1?\d?\d)$/,
+};
+
+/** JSON Schema type name of a value ('integer' is reported as 'number') */
+function typeOf(value: unknown): string {
+	if (value === null) {
+		return 'null';
+	}
+
+	if (Array.isArray(value)) {
+		return 'array';
+	}
+
+	return typeof value;
+}
+
+/** Whether a value satisfies a single JSON Schema type name */
+function matchesType(value: unknown, type: string): boolean {
+	if (type === 'integer') {
+		return Number.isInteger(value);
+	}
+
+	return typeOf(value) === type;
+}
+
+/** Deep equality for enum/const comparisons on JSON values */
+function jsonEqual(a: unknown, b: unknown): boolean {
+	return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/** Append a property name to a path, using dot notation where it reads naturally */
+function propertyPath(path: string, key: string): string {
+	return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+function validateAt(value: unknown, schema: unknown, path: string, violations: SchemaViolation[]): void {
+	if (schema === false) {
+		violations.push({path, message: 'is not allowed', schema});
+		return;
+	}
+
+	if (typeof schema !== 'object' || schema === null) {
+		return;
+	}
+
+	const s = schema as Record<string, unknown>;
+
+	if (s.type !== undefined) {
+		const types = Array.isArray(s.type) ? s.type as string[] : [s.type as string];
+		if (!types.some((t) => matchesType(value, t))) {
+			violations.push({path, message: `must be ${types.join(' or ')}, got ${typeOf(value)}`, schema});
+			// Further keywords would only produce noise once the type is wrong
+			return;
+		}
+	}
+
+	if (s.const !== undefined && !jsonEqual(value, s.const)) {
+		violations.push({path, message: `must be ${JSON.stringify(s.const)}`, schema});
+	}
+
+	if (Array.isArray(s.enum) && !s.enum.some((option) => jsonEqual(value, option))) {
+		violations.push({path, message: `must be one of ${s.enum.map((option) => JSON.stringify(option)).join(', ')}`, schema});
+	}
+
+	if (typeof value === 'string' && typeof s.format === 'string') {
+		const pattern = FORMATS[s.format];
+		if (pattern && !pattern.test(value)) {
+			violations.push({path, message: `must be a valid ${s.format}`, schema});
+		}
+	}
+
+	if (Array.isArray(value) && s.items !== undefined) {
+		for (const [index, item] of value.entries()) {
+			validateAt(item, s.items, `${path}[${index}]`, violations);
+		}
+	}
+
+	if (typeOf(value) === 'object') {
+		const obj = value as Record<string, unknown>;
+		const properties = (s.properties ?? {}) as Record<string, unknown>;
+
+		if (Array.isArray(s.required)) {
+			for (const key of s.required as string[]) {
+				if (!(key in obj)) {
+					violations.push({path: propertyPath(path, key), message: 'is required', schema: properties[key] ?? {}});
+				}
+			}
+		}
+
+		for (const [key, propValue] of Object.entries(obj)) {
+			if (key in properties) {
+				validateAt(propValue, properties[key], propertyPath(path, key), violations);
+			} else if (s.additionalProperties === false) {
+				violations.push({path: propertyPath(path, key), message: 'is not an allowed property', schema: {properties: Object.keys(properties)}});
+			} else if (s.additionalProperties !== undefined && s.additionalProperties !== true) {
+				validateAt(propValue, s.additionalProperties, propertyPath(path, key), violations);
+			}
+		}
+	}
+}
+
+/**
+ * Validate a value against a JSON Schema.
+ *
+ * Supports a subset of draft 2020-12: type (including integer and type arrays),
+ * const, enum, properties, required, additionalProperties, items and format
+ * (date-time, date, time, email, uri, uuid, ipv4). Other keywords are ignored.
+ */
+export function validateJsonSchema(value: unknown, schema: unknown, rootPath = 'args'): SchemaViolation[] {
+	const violations: SchemaViolation[] = [];
+	validateAt(value, schema, rootPath, violations);
+	return violations;
+}
+
+/** Max length of the schema snippet included in violation messages */
+const MAX_SNIPPET_CHARS = 200;
+
+/** Format violations into a single error message for sandbox code */
+export function formatViolations(prefix: string, violations: SchemaViolation[]): string {
+	const details = violations.slice(0, 5).map((v) => {
+		let snippet = JSON.stringify(v.schema) ?? '';
+		if (snippet.length > MAX_SNIPPET_CHARS) {
+			snippet = `${snippet.slice(0, MAX_SNIPPET_CHARS)}...`;
+		}
+
+		return `${v.path} ${v.message} (expected schema: ${snippet})`;
+	});
+	if (violations.length > 5) {
+		details.push(`and ${violations.length - 5} more`);
+	}
+
+	return `${prefix}: ${details.join('; ')}`;
+}
+
+/** Try to convert a value to one of the given JSON Schema types */
+function coerceType(value: unknown, types: string[]): unknown {
+	for (const type of types) {
+		if (matchesType(value, type)) {
+			return value;
+		}
+	}
+
+	for (const type of types) {
+		if ((type === 'number' || type === 'integer') && typeof value === 'string' && value.trim() !== '') {
+			const n = Number(value);
+			if (Number.isFinite(n) && matchesType(n, type)) {
+				return n;
+			}
+		}
+
+		if (type === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+			return String(value);
+		}
+
+		if (type === 'boolean' && (value === 'true' || value === 'false')) {
+			return value === 'true';
+		}
+
+		if (type === 'array' && value !== undefined && value !== null) {
+			return [value];
+		}
+	}
+
+	return value;
+}
+
+/**
+ * Best-effort conversion of a value towards a JSON Schema.
+ *
+ * Converts scalar types where unambiguous, wraps single values in arrays,
+ * and drops properties disallowed by additionalProperties: false.
+ * Returns a new value; the input is not modified. Use validateJsonSchema
+ * afterwards to find anything that could not be fixed.
+ */
+export function coerceToSchema(value: unknown, schema: unknown): unknown {
+	if (typeof schema !== 'object' || schema === null) {
+		return value;
+	}
+
+	const s = schema as Record<string, unknown>;
+	let coerced = value;
+
+	if (s.type !== undefined) {
+		coerced = coerceType(coerced, Array.isArray(s.type) ? s.type as string[] : [s.type as string]);
+	}
+
+	if (Array.isArray(coerced) && s.items !== undefined) {
+		return coerced.map((item) => coerceToSchema(item, s.items));
+	}
+
+	if (typeOf(coerced) === 'object') {
+		const properties = (s.properties ?? {}) as Record<string, unknown>;
+		const result: Record<string, unknown> = {};
+		for (const [key, propValue] of Object.entries(coerced as Record<string, unknown>)) {
+			if (key in properties) {
+				result[key] = coerceToSchema(propValue, properties[key]);
+			} else if (s.additionalProperties === false) {
+				continue;
+			} else {
+				result[key] = s.additionalProperties === undefined || s.additionalProperties === true
+					? propValue
+					: coerceToSchema(propValue, s.additionalProperties);
+			}
+		}
+
+		return result;
+	}
+
+	return coerced;
+}
@@ -0,0 +1,42 @@
+import {mkdtemp, readFile, rm} from 'node:fs/promises';
+import {tmpdir} from 'node:os';
+import {join} from 'node:path';
+import {test, expect} from 'vitest';
+import {createMemoryStoreAdapter, createJsonFileStoreAdapter} from './store';
+
+test('memory adapter round-trips the store without sharing references', async () => {
+	const adapter = createMemoryStoreAdapter({a: 1});
+	expect(await adapter.load()).toEqual({a: 1});
+
+	const store = {b: [1, 2]};
+	await adapter.save(store);
+	store.b.push(3);
+	expect(await adapter.load()).toEqual({b: [1, 2]});
+});
+
+test('memory adapter supports per-key set', async () => {
+	const adapter = createMemoryStoreAdapter();
+	await adapter.set!('x', {y: 1});
+	expect(await adapter.load()).toEqual({x: {y: 1}});
+
+	await adapter.set!('x', undefined);
+	expect(await adapter.load()).toEqual({});
+});
+
+test('JSON file adapter persists to disk', async () => {
+	const dir = await mkdtemp(join(tmpdir(), 'tool-sandbox-'));
+	try {
+		const path = join(dir, 'store.json');
+		const adapter = createJsonFileStoreAdapter(path);
+		expect(await adapter.load()).toBeUndefined();
+
+		await adapter.save({a: 1});
+		await Promise.all([adapter.set!('b', 2), adapter.set!('c', 3)]);
+		await adapter.set!('a', undefined);
+
+		expect(JSON.parse(await readFile(path, 'utf8'))).toEqual({b: 2, c: 3});
+		expect(await createJsonFileStoreAdapter(path).load()).toEqual({b: 2, c: 3});
+	} finally {
+		await rm(dir, {recursive: true});
+	}
+});
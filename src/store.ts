@@ -0,0 +1,134 @@
+import {readFile, rename, writeFile} from 'node:fs/promises';
+import {encodeValue, decodeValue} from './marshal.js';
+import type {StoreAdapter} from './types.js';
+
+/** Copy of a store without the given key */
+function withoutKey(store: Record<string, unknown>, key: string): Record<string, unknown> {
+	return Object.fromEntries(Object.entries(store).filter(([k]) => k !== key));
+}
+
+/** Store adapter keeping the store in memory - useful for tests, or sharing one store between sandboxes */
+export function createMemoryStoreAdapter(initial: Record<string, unknown> = {}): StoreAdapter {
+	let data = structuredClone(initial);
+
+	return {
+		async load() {
+			return structuredClone(data);
+		},
+		async save(store) {
+			data = structuredClone(store);
+		},
+		async set(key, value) {
+			data = value === undefined ? withoutKey(data, key) : {...data, [key]: structuredClone(value)};
+		},
+	};
+}
+
+/** Store adapter persisting the store as a JSON file (see encodeValue). Writes go to a temp file first, so a crash never leaves a half-written store. */
+export function createJsonFileStoreAdapter(path: string): StoreAdapter {
+	// Serialize writes so concurrent saves can't interleave
+	let writes: Promise<unknown> = Promise.resolve();
+
+	const read = async (): Promise<Record<string, unknown> | undefined> => {
+		try {
+			return decodeValue(await readFile(path, 'utf8')) as Record<string, unknown>;
+		} catch (error) {
+			if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+				return undefined;
+			}
+
+			throw error;
+		}
+	};
+
+	const write = async (update: (store: Record<string, unknown>) => Record<string, unknown>): Promise<void> => {
+		const run = writes.then(async () => {
+			const next = update((await read()) ?? {});
+			const tempPath = `${path}.${process.pid}.tmp`;
+			await writeFile(tempPath, encodeValue(next), 'utf8');
+			await rename(tempPath, path);
+		});
+		writes = run.catch(() => undefined);
+		return run;
+	};
+
+	return {
+		load: read,
+		async save(store) {
+			await write(() => store);
+		},
+		async set(key, value) {
+			await write((store) => (value === undefined ? withoutKey(store, key) : {...store, [key]: value}));
+		},
+	};
+}
+
+/**
+ * Builds the VM-side store: a proxy that fetches keys from the host on first access.
+ * Values handed out are cached, so repeated reads return the same object and in-place
+ * mutations are found by flush(), which writes back only keys whose encoding changed.
+ */
+export const STORE_PROXY_CODE = `(host, codec) => {
+	const cache = new Map();
+	const prev = {loaded: false, value: undefined};
+	const read = (key) => {
+		if (!cache.has(key)) {
+			const json = host.get(key);
+			cache.set(key, {value: json === undefined ? undefined : codec.decode(json), json});
+		}
+		return cache.get(key).value;
+	};
+	const write = (key, value) => {
+		const json = value === undefined ? undefined : codec.encode(value);
+		host.set(key, json);
+		cache.set(key, {value, json});
+	};
+	const proxy = new Proxy({}, {
+		get(_, key) {
+			if (key === '_prev') {
+				if (!prev.loaded) {
+					prev.value = codec.decode(host.prev());
+					prev.loaded = true;
+				}
+				return prev.value;
+			}
+			return typeof key === 'string' ? read(key) : undefined;
+		},
+		set(_, key, value) {
+			if (typeof key !== 'string' || key === '_prev') return false;
+			write(key, value);
+			return true;
+		},
+		deleteProperty(_, key) {
+			if (typeof key !== 'string' || key === '_prev') return false;
+			write(key, undefined);
+			return true;
+		},
+		has(_, key) {
+			if (key === '_prev') return true;
+			if (typeof key !== 'string') return false;
+			return cache.has(key) ? cache.get(key).value !== undefined : host.has(key);
+		},
+		ownKeys() {
+			return [...JSON.parse(host.keys()), '_prev'];
+		},
+		getOwnPropertyDescriptor(_, key) {
+			if (!Reflect.has(proxy, key)) return undefined;
+			// An accessor, so Object.keys() and friends don't fetch every value
+			const set = key === '_prev' ? undefined : (value) => { proxy[key] = value; };
+			return {get: () => proxy[key], set, enumerable: true, configurable: true};
+		},
+	});
+	globalThis.store = proxy;
+	return {
+		flush() {
+			for (const [key, entry] of cache) {
+				const json = entry.value === undefined ? undefined : codec.encode(entry.value);
+				if (json !== entry.json) {
+					host.set(key, json);
+					entry.json = json;
+				}
+			}
+		},
+	};
+}`;
@@ -0,0 +1,61 @@
+import type {ExecutionTrace, ToolCallTrace} from './types.js';
+
+/** A tool() call as tracked during an execution, before it is summarized into a ToolCallTrace */
+export type ToolCallRecord = Omit<ToolCallTrace, 'endedAt' | 'durationMs' | 'overlappingCallIds' | 'outcome'> & {
+	endedAt?: number;
+	outcome?: 'success' | 'error';
+};
+
+/** Summarize tool call records into an execution trace, working out overlaps and tool wait time */
+export function buildTrace(executionId: string, startedAt: number, vmTimeMs: number, records: ToolCallRecord[]): ExecutionTrace {
+	const endedAt = Date.now();
+	const calls = records.map((record): ToolCallTrace => {
+		const end = record.endedAt ?? endedAt;
+		return {
+			...record,
+			endedAt: end,
+			durationMs: end - record.startedAt,
+			outcome: record.outcome ?? 'unfinished',
+			overlappingCallIds: [],
+		};
+	});
+
+	for (const call of calls) {
+		call.overlappingCallIds = calls
+			.filter((other) => other !== call && other.startedAt < call.endedAt && call.startedAt < other.endedAt)
+			.map((other) => other.callId);
+	}
+
+	// Peak concurrency is reached when some call starts, so count what's in flight at each start
+	let maxConcurrency = 0;
+	for (const call of calls) {
+		const inFlight = calls.filter((other) => other.startedAt <= call.startedAt && call.startedAt < other.endedAt).length;
+		maxConcurrency = Math.max(maxConcurrency, inFlight);
+	}
+
+	// Merge call intervals to find the time spent waiting on at least one tool
+	let toolWaitMs = 0;
+	let waitStart = 0;
+	let waitEnd = -1;
+	for (const call of [...calls].sort((a, b) => a.startedAt - b.startedAt)) {
+		if (call.startedAt > waitEnd) {
+			toolWaitMs += Math.max(0, waitEnd - waitStart);
+			waitStart = call.startedAt;
+		}
+
+		waitEnd = Math.max(waitEnd, call.endedAt);
+	}
+
+	toolWaitMs += Math.max(0, waitEnd - waitStart);
+
+	return {
+		executionId,
+		startedAt,
+		endedAt,
+		durationMs: endedAt - startedAt,
+		vmTimeMs: Math.round(vmTimeMs * 10) / 10,
+		toolWaitMs,
+		maxConcurrency,
+		toolCalls: calls,
+	};
+}
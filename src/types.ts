@@ -7,20 +7,55 @@ export type JsonSchema = {
 	required?: string[];
 };
 
+/** MCP tool annotations - hints about a tool's behavior, not guarantees */
+export type ToolAnnotations = {
+	/** Allow additional fields (title, etc.) */
+	[key: string]: unknown;
+	/** The tool does not modify its environment (default: false) */
+	readOnlyHint?: boolean;
+	/** The tool may perform destructive updates. Only meaningful when not read-only (default: true) */
+	destructiveHint?: boolean;
+	/** Calling the tool repeatedly with the same args has no additional effect. Only meaningful when not read-only (default: false) */
+	idempotentHint?: boolean;
+	/** The tool may interact with external entities (default: true) */
+	openWorldHint?: boolean;
+};
+
 /** Tool definition - matches MCP SDK Tool interface with handler */
 export type Tool = {
-	/** Allow additional fields (annotations, etc.) */
+	/** Allow additional fields */
 	[key: string]: unknown;
 	name: string;
 	title?: string;
 	description?: string;
 	inputSchema: JsonSchema;
 	outputSchema?: JsonSchema;
-	handler: (args: unknown) => Promise<unknown>;
+	/** Behavior hints, used by policy rules and retries */
+	annotations?: ToolAnnotations;
+	/** Retry policy for this tool, merged over SandboxOptions.retry. false never retries it. */
+	retry?: RetryPolicy | false;
+	/** Result to give sandbox code instead of calling the handler in a dry run (default: a placeholder matching outputSchema) */
+	mock?: (args: unknown) => unknown;
+	/** Key of the MCP client this tool came from (set by fromMcpClients) */
+	mcpPrefix?: string;
+	/** Receives the execution's AbortSignal, if one was passed to execute.handler, and which tool() call it is handling */
+	handler: (args: unknown, signal?: AbortSignal, context?: ToolCallContext) => Promise<unknown>;
+};
+
+/** Context shared by tool call events */
+export type ToolCallContext = {
+	/** Unique id of this tool() call (matches ToolCallTrace.callId) */
+	callId: string;
+	/** Unique id of the execution making the call (matches ExecutionTrace.executionId) */
+	executionId: string;
+	/** The tool being called, including extra fields such as MCP annotations */
+	tool: Tool;
+	/** The code being executed that made the call */
+	code: string;
 };
 
 /** Event fired before a tool is called */
-export type BeforeToolCallEvent = {
+export type BeforeToolCallEvent = ToolCallContext & {
 	toolName: string;
 	args: unknown;
 	/** Mutable - set to skip the tool call and return this value instead */
@@ -28,32 +63,294 @@ export type BeforeToolCallEvent = {
 };
 
 /** Event fired after a successful tool call */
-export type ToolCallSuccessEvent = {
+export type ToolCallSuccessEvent = ToolCallContext & {
 	toolName: string;
 	args: unknown;
+	/** Which handler attempt succeeded, starting at 1 (absent if onBeforeToolCall set returnValue, or the result was cached) */
+	attempt?: number;
+	/** Set when the result came from the cache option instead of the handler */
+	cached?: boolean;
 	/** Mutable - modify to change the result */
 	result: unknown;
 };
 
-/** Event fired after a failed tool call */
-export type ToolCallErrorEvent = {
+/** Event fired after a failed tool call, once per failed attempt when retrying */
+export type ToolCallErrorEvent = ToolCallContext & {
 	toolName: string;
 	args: unknown;
 	error: Error;
+	/** Which handler attempt failed, starting at 1 */
+	attempt: number;
+	/**
+	 * Mutable - whether the handler will be called again (see RetryPolicy). Set to false to give up, or true to retry anyway.
+	 * Retries never go beyond maxAttempts, and never happen when the handler succeeded but a later step (e.g. onToolCallSuccess) threw.
+	 */
+	willRetry: boolean;
 	/** Mutable - set to recover and return this instead of throwing */
 	result?: unknown;
 };
 
+/** A single place where a value does not match its JSON Schema */
+export type SchemaViolation = {
+	/** Location of the bad value, e.g. 'args.users[2].email' */
+	path: string;
+	/** What is wrong, e.g. 'must be string, got number' */
+	message: string;
+	/** The (sub)schema the value failed against */
+	schema: unknown;
+};
+
+/** What to do when a tool result does not match its outputSchema */
+export type OutputValidationPolicy = 'warn' | 'coerce' | 'throw';
+
+/** Event fired when a tool result does not match its outputSchema */
+export type ToolOutputMismatchEvent = {
+	toolName: string;
+	args: unknown;
+	/** The result as returned by the handler */
+	result: unknown;
+	violations: SchemaViolation[];
+	policy: OutputValidationPolicy;
+	/** With the 'coerce' policy: the coerced result passed on to sandbox code */
+	coercedResult?: unknown;
+	/** With the 'coerce' policy: violations that remain after coercion */
+	remainingViolations?: SchemaViolation[];
+};
+
+/**
+ * Backend for persisting the store, e.g. so a conversation can resume on another worker.
+ * Values may include Dates, Maps, Sets, BigInts, Uint8Arrays and undefined - use encodeValue/decodeValue to serialize them.
+ */
+export type StoreAdapter = {
+	/**
+	 * Read the whole store (undefined if nothing has been saved yet). Called once, when the sandbox is created:
+	 * sandbox code reads the store synchronously, so keys can't be fetched from the adapter one at a time.
+	 */
+	load(): Promise<Record<string, unknown> | undefined>;
+	/** Replace the whole store */
+	save(store: Record<string, unknown>): Promise<void>;
+	/** Write one key, or delete it if value is undefined. Optional - when present, only changed keys are written instead of calling save. */
+	set?(key: string, value: unknown): Promise<void>;
+};
+
+/** What a policy rule does with a matching tool() call: run it, reject it, or pause it for approval (like requireApproval) */
+export type PolicyEffect = 'allow' | 'deny' | 'ask';
+
+/** A policy rule. A call matches if it matches every condition given. */
+export type PolicyRule = {
+	effect: PolicyEffect;
+	/** Tool name glob(s), where * matches any characters and ? one character, e.g. 'gmail__*' */
+	tools?: string | string[];
+	/** Required annotation values. Missing annotations take their MCP defaults, e.g. destructiveHint: true matches unannotated tools. */
+	annotations?: Partial<Record<'readOnlyHint' | 'destructiveHint' | 'idempotentHint' | 'openWorldHint', boolean>>;
+	/** Predicate on the call's args (after onBeforeToolCall) */
+	when?: (args: unknown, tool: Tool) => boolean;
+	/** Included in the decision log, and in the error thrown in the sandbox for 'deny' */
+	reason?: string;
+};
+
+/** Declarative allow/deny/ask rules for tool() calls. The first matching rule wins. */
+export type Policy = {
+	rules: PolicyRule[];
+	/** Effect when no rule matches (default: 'allow') */
+	default?: PolicyEffect;
+};
+
+/** Record of the policy being applied to a tool() call */
+export type PolicyDecision = {
+	callId: string;
+	toolName: string;
+	args: unknown;
+	effect: PolicyEffect;
+	/** Index of the matching rule in policy.rules (absent if the default applied) */
+	ruleIndex?: number;
+	reason?: string;
+};
+
+/** When to retry a tool whose handler throws */
+export type RetryPolicy = {
+	/** Attempts in total, including the first (default: 3) */
+	maxAttempts?: number;
+	/** Delay before the first retry in ms, doubling for each retry after that (default: 100) */
+	initialDelayMs?: number;
+	/** Max delay between attempts in ms (default: 5000) */
+	maxDelayMs?: number;
+	/** Fraction each delay may be randomly reduced by, so retries from parallel calls spread out (default: 0.5) */
+	jitter?: number;
+	/** Whether an error is worth retrying (default: all errors) */
+	retryable?: (error: Error, attempt: number) => boolean;
+	/** Also retry tools not annotated as idempotent or read-only, which could repeat side effects (default: false) */
+	retryNonIdempotent?: boolean;
+};
+
+/**
+ * Backend for cached tool results, e.g. Redis to share a cache across workers.
+ * Values are results encoded with encodeValue.
+ */
+export type CacheBackend = {
+	/** Read a cached result (undefined if missing or expired) */
+	get(key: string): Promise<string | undefined>;
+	/** Cache a result for ttlMs */
+	set(key: string, value: string, ttlMs: number): Promise<void>;
+};
+
+/** Options for caching tool results */
+export type ResultCacheOptions = {
+	/** How long a result stays cached in ms (default: 300000) */
+	ttlMs?: number;
+	/** Which tools to cache (default: tools annotated readOnlyHint) */
+	cacheable?: (tool: Tool) => boolean;
+	/** Where to keep results (default: createMemoryCacheBackend(), holding up to 1000 entries) */
+	backend?: CacheBackend;
+	/**
+	 * Prepended to every cache key, e.g. a user or tenant id. Set it when a backend is shared
+	 * between sandboxes acting for different users, so one user's results are never served to another.
+	 */
+	keyPrefix?: string;
+};
+
+/** A tool() call recorded in a cassette */
+export type CassetteCall = {
+	toolName: string;
+	/** Args as passed by sandbox code */
+	args: unknown;
+	/** The value tool() resolved with (before blob extraction) */
+	result?: unknown;
+	/** The message tool() rejected with. With neither result nor error, the call was unfinished when the execution ended. */
+	error?: string;
+	/** Name of the error tool() rejected with, if not 'Error' */
+	errorName?: string;
+};
+
+/**
+ * The tool() calls of an execution, in the order sandbox code made them.
+ * Results may include Dates, Maps etc. - use encodeValue/decodeValue to save cassettes as JSON.
+ */
+export type Cassette = {
+	version: 1;
+	calls: CassetteCall[];
+};
+
+/** Token-bucket rate limit */
+export type RateLimit = {
+	/** Calls per second on average (the refill rate) */
+	perSecond: number;
+	/** Calls allowed in a burst - the bucket size (default: perSecond, at least 1) */
+	burst?: number;
+};
+
+/** Caps on tool() calls. Except for maxConcurrency, exceeding one makes the tool() call throw a ToolLimitError in the sandbox. */
+export type ToolCallLimits = {
+	/** Max tool() calls per execution */
+	maxCalls?: number;
+	/** Max tool() calls of any one tool per execution */
+	maxCallsPerTool?: number;
+	/** Max tool calls running at once per execution. Further calls wait in a queue for a free slot. */
+	maxConcurrency?: number;
+	/**
+	 * Rate limits shared by all executions, keyed by tool name glob. Each key is one bucket,
+	 * so {'gmail__*': {perSecond: 5}} limits all tools of the gmail MCP client together.
+	 */
+	rateLimits?: Record<string, RateLimit>;
+};
+
+/** Instrumentation for a single tool() call */
+export type ToolCallInstrumentation = {
+	/** Run the tool handler in this call's context, so work it does is attributed to the call */
+	run<T>(fn: () => T): T;
+	/** Called once when the call finishes, or with outcome 'unfinished' if the execution ends first */
+	end(event: {outcome: ToolCallTrace['outcome']; resultSize?: number; error?: string}): void;
+};
+
+/** Instrumentation for a single execution */
+export type ExecutionInstrumentation = {
+	/** Called when sandbox code calls tool(). tool is undefined if no tool has that name. */
+	startToolCall(event: {callId: string; toolName: string; tool: Tool | undefined; args: unknown; argsSize: number}): ToolCallInstrumentation;
+	/** Called once with the execution's result */
+	end(result: ExecuteResult): void;
+};
+
+/** Hooks for tracing integrations, e.g. createOpenTelemetryInstrumentation from 'tool-sandbox/otel' */
+export type Instrumentation = {
+	/** Called when an execution starts */
+	startExecution(event: {executionId: string; code: string}): ExecutionInstrumentation;
+};
+
 /** Options for createSandbox */
 export type SandboxOptions = {
 	tools: Tool[];
-	onBeforeToolCall?: (event: BeforeToolCallEvent) => void;
-	onToolCallSuccess?: (event: ToolCallSuccessEvent) => void;
-	onToolCallError?: (event: ToolCallErrorEvent) => void;
+	/** Called before each tool call. May return a Promise (e.g. to ask a human), which is awaited before the call proceeds. */
+	onBeforeToolCall?: (event: BeforeToolCallEvent) => void | Promise<void>;
+	/**
+	 * Decide whether a tool call must be approved by the host before it runs (called after onBeforeToolCall).
+	 * If so, the execution pauses and execute.handler returns a result with status 'pending_approval';
+	 * call sandbox.resolveApproval to resume it. The timeout does not run while waiting.
+	 * Not called for built-in tools like describe_tool.
+	 */
+	requireApproval?: (event: BeforeToolCallEvent) => boolean | Promise<boolean>;
+	/** How long a paused execution waits for resolveApproval before failing with a timeout, in ms (default: 600000) */
+	approvalTimeoutMs?: number;
+	/**
+	 * Allow, deny or ask for approval of tool() calls by name, annotations and args. Evaluated after onBeforeToolCall.
+	 * Tools denied regardless of args are hidden from list_tools, describe_tool and the execute description.
+	 * Built-in tools are not subject to the policy.
+	 */
+	policy?: Policy;
+	/**
+	 * Retry tools whose handler throws, with exponential backoff (default: no retries).
+	 * Only tools annotated idempotentHint or readOnlyHint are retried unless retryNonIdempotent is set.
+	 * onToolCallError fires for every failed attempt.
+	 */
+	retry?: RetryPolicy;
+	/**
+	 * Cache results of read-only tools, keyed on the tool name and args (default: off).
+	 * Hits still pass the policy, fire onToolCallSuccess and count toward maxCalls and maxCallsPerTool, but skip the handler, maxConcurrency, rate limits and retries.
+	 */
+	cache?: ResultCacheOptions;
+	/** Record each execution's tool() calls and their outcomes as ExecuteResult.cassette (default: false) */
+	record?: boolean;
+	/**
+	 * Serve tool() calls from a cassette instead of running them. Hooks, policy, limits and handlers are skipped.
+	 * Calls are matched in order across executions; a call that differs in tool name or args fails the execution with kind 'replay'.
+	 */
+	replay?: Cassette;
+	/** Caps on the number, concurrency and rate of tool() calls (default: unlimited). Built-in tools count too. */
+	limits?: ToolCallLimits;
+	/** Called after each successful tool call. May return a Promise, which is awaited before the result reaches the sandbox. */
+	onToolCallSuccess?: (event: ToolCallSuccessEvent) => void | Promise<void>;
+	/** Called after each failed tool call. May return a Promise, which is awaited before the error reaches the sandbox. */
+	onToolCallError?: (event: ToolCallErrorEvent) => void | Promise<void>;
+	/** Called when a tool result does not match its outputSchema (requires validateToolOutput) */
+	onToolOutputMismatch?: (event: ToolOutputMismatchEvent) => void;
+	/**
+	 * Validate handler results against each tool's outputSchema (default: off).
+	 * 'warn' passes the result through, 'coerce' converts it towards the schema
+	 * (numeric strings to numbers, dropping disallowed properties, etc.), and
+	 * 'throw' rejects the tool() call. All policies fire onToolOutputMismatch.
+	 */
+	validateToolOutput?: OutputValidationPolicy;
+	/** Validate tool() args against each tool's inputSchema before calling its handler (default: false) */
+	validateToolInput?: boolean;
+	/** Wall-clock limit per execution in ms, interrupting CPU-bound code too (default: 60000) */
+	timeoutMs?: number;
+	/** Heap memory limit per execution in bytes (default: unlimited) */
+	memoryLimitBytes?: number;
+	/** Max VM stack size per execution in bytes (default: QuickJS default) */
+	maxStackSizeBytes?: number;
+	/** Max total size of the store in bytes (keys plus JSON values). Writes that would exceed it throw a StoreQuotaError in the sandbox (default: unlimited) */
+	maxStoreBytes?: number;
+	/** Persist the store outside this process. Loaded when the sandbox is created, saved after each successful execution. */
+	storeAdapter?: StoreAdapter;
+	/** Tracing hooks for executions and tool() calls, e.g. createOpenTelemetryInstrumentation() from 'tool-sandbox/otel' */
+	instrumentation?: Instrumentation;
+	/** Return an ExecutionTrace with every result, with timings for each tool() call (default: false) */
+	trace?: boolean;
 	/** Max result size in chars before truncation (default: 40000) */
 	experimental_maxResultChars?: number;
 	/** Max poll iterations before timeout, ~100ms each (default: 500) */
 	experimental_maxPollIterations?: number;
+	/** Max total console output in chars before truncation (default: 20000) */
+	experimental_maxLogChars?: number;
 };
 
 /** Blob content extracted from tool results (images, PDFs, etc.) */
@@ -63,13 +360,146 @@ export type Blob = {
 	mimeType: string;
 };
 
+/** Console method used to produce a log entry */
+export type LogLevel = 'log' | 'info' | 'warn' | 'error' | 'debug';
+
+/** A console call captured from sandbox code */
+export type LogEntry = {
+	level: LogLevel;
+	/** Milliseconds since epoch when the entry was logged */
+	timestamp: number;
+	/** Arguments formatted and joined with spaces, like Node's console */
+	message: string;
+};
+
+/** Broad category of an execution failure */
+export type ErrorKind = 'syntax' | 'runtime' | 'timeout' | 'tool' | 'truncated' | 'limit' | 'cancelled' | 'store' | 'replay';
+
+/** Structured description of an execution failure */
+export type ErrorDetails = {
+	kind: ErrorKind;
+	/** Error class name, e.g. 'TypeError' */
+	name: string;
+	/** Same as ExecuteResult.error */
+	message: string;
+	/** Stack trace with line numbers relative to the submitted code */
+	stack?: string;
+	/** Line in the submitted code where the error was raised, if known */
+	line?: number;
+	/** Tool whose tool() call produced the error */
+	toolName?: string;
+	cause?: unknown;
+};
+
+/** One tool() call in an execution trace */
+export type ToolCallTrace = {
+	/** Unique id of this call */
+	callId: string;
+	toolName: string;
+	/** Args as passed by sandbox code */
+	args: unknown;
+	/** Epoch ms when sandbox code called tool() */
+	startedAt: number;
+	/** Epoch ms when the result (or error) was ready, or when the execution ended if the call never finished */
+	endedAt: number;
+	durationMs: number;
+	/** 'unfinished' if the execution ended (e.g. timed out, or a Promise.race winner returned) before the call did */
+	outcome: 'success' | 'error' | 'unfinished';
+	/** Size of the result in chars, as passed to the sandbox */
+	resultSize?: number;
+	/** Error message passed to the sandbox */
+	error?: string;
+	/** Handler attempts made, if the call was retried */
+	attempts?: number;
+	/** Set when the result came from the cache option */
+	cached?: boolean;
+	/** Ids of other calls that were in flight at the same time */
+	overlappingCallIds: string[];
+};
+
+/** Timing breakdown of an execution (with the trace option) */
+export type ExecutionTrace = {
+	/** Unique id of this execution */
+	executionId: string;
+	startedAt: number;
+	endedAt: number;
+	durationMs: number;
+	/** Time spent running JS inside the VM */
+	vmTimeMs: number;
+	/** Wall-clock time during which at least one tool call was in flight */
+	toolWaitMs: number;
+	/** Most tool calls in flight at once */
+	maxConcurrency: number;
+	toolCalls: ToolCallTrace[];
+};
+
+/** A tool() call waiting for sandbox.resolveApproval */
+export type PendingApproval = {
+	/** Pass to sandbox.resolveApproval */
+	id: string;
+	callId: string;
+	executionId: string;
+	toolName: string;
+	args: unknown;
+	/** The code being executed that made the call */
+	code: string;
+};
+
+/** How to resume a paused tool() call: run it, reject it, or run it with different args */
+export type ApprovalDecision = 'approved' | 'denied' | {modifiedArgs: unknown};
+
+/** A side-effecting tool() call that a dry run simulated instead of making */
+export type SideEffect = {
+	callId: string;
+	toolName: string;
+	args: unknown;
+	/** The simulated result given to sandbox code */
+	result: unknown;
+};
+
 /** Result from executing code */
 export type ExecuteResult = {
 	success: boolean;
 	result?: unknown;
 	error?: string;
+	/** Structured form of error (present whenever error is) */
+	errorDetails?: ErrorDetails;
 	/** Blobs extracted from tool results during execution */
 	blobs: Blob[];
+	/** Console output captured during execution (omitted if nothing was logged) */
+	logs?: LogEntry[];
+	/** Set when the execution was stopped via its AbortSignal */
+	cancelled?: boolean;
+	/** Tool calls and timings (with the trace option) */
+	trace?: ExecutionTrace;
+	/** Set when the execution is paused at a tool() call that needs approval (see requireApproval) */
+	status?: 'pending_approval';
+	/** The call waiting for approval, when status is 'pending_approval' */
+	approval?: PendingApproval;
+	/** How the policy option applied to each tool() call (omitted without a policy, or if no calls were made) */
+	policyDecisions?: PolicyDecision[];
+	/** This execution's tool() calls (with the record option) */
+	cassette?: Cassette;
+	/** Calls a dry run simulated instead of making (only set by Sandbox.dryRun) */
+	sideEffects?: SideEffect[];
+};
+
+/** Tool object for executing code - pass to an LLM and call its handler */
+export type ExecuteTool = Omit<Tool, 'handler'> & {
+	description: string;
+	outputSchema: JsonSchema;
+	/** Pass an AbortSignal to cancel the execution and any in-flight tool calls */
+	handler: (args: {code: string}, signal?: AbortSignal) => Promise<ExecuteResult>;
+};
+
+/** Persistent execution session - the VM, and so JS globals, survive between executions */
+export type Session = {
+	/** Like Sandbox.execute, but runs in this session's VM. Executions are run one at a time. */
+	readonly execute: ExecuteTool;
+	/** Discard all VM state; the next execution starts from a fresh context */
+	reset(): void;
+	/** Free the VM; further executions reject */
+	dispose(): void;
 };
 
 /** Sandbox instance */
@@ -79,11 +509,27 @@ export type Sandbox = {
 	/** Persistent store - read/write from host and sandbox */
 	store: Record<string, unknown>;
 	/** Tool object for executing code */
-	readonly execute: Omit<Tool, 'handler'> & {
-		description: string;
-		outputSchema: JsonSchema;
-		handler: (args: {code: string}) => Promise<ExecuteResult>;
-	};
+	readonly execute: ExecuteTool;
+	/**
+	 * Resume an execution paused for approval. Resolves with the execution's next result:
+	 * its final result, or another pending approval.
+	 */
+	resolveApproval(id: string, decision: ApprovalDecision): Promise<ExecuteResult>;
+	/** End an execution paused for approval without deciding. Resolves with its final, cancelled result. */
+	cancelApproval(id: string): Promise<ExecuteResult>;
+	/**
+	 * Like execute.handler, but tools not annotated readOnlyHint are not called: sandbox code gets their mock
+	 * (or a placeholder matching outputSchema) instead, and the result lists them as sideEffects.
+	 * Store changes are discarded. Use it to preview what code would do before running it for real.
+	 */
+	dryRun(args: {code: string}, signal?: AbortSignal): Promise<ExecuteResult>;
+	/**
+	 * Throw if the code made fewer tool() calls than the replay cassette recorded, e.g. because it stopped sending an email.
+	 * Call it after the last replayed execution. Does nothing without the replay option.
+	 */
+	assertReplayComplete(): void;
+	/** Create a session that keeps one VM alive across executions, like a REPL */
+	createSession(): Session;
 	/** Add a tool */
 	addTool(tool: Tool): void;
 	/** Remove a tool by name */